@@ -0,0 +1,53 @@
+import Parse from "parse/node";
+import { encryptSecretConfigValues } from "../src/Config";
+import { generateConfigEncryptionKey } from "../src/ConfigEncryption";
+import assert from "assert";
+
+// Manages the encryption of secret ConferenceConfiguration values (see
+// src/ConfigEncryption.ts and `encryptSecretConfigValues` in src/Config.ts).
+//
+// Usage: npm run encrypt-config -- <command> [conference id]
+//
+//  - generate-key: prints a new master key
+//  - encrypt: encrypts secret values still stored as plaintext with
+//    CLOWDR_CONFIG_ENCRYPTION_KEY
+//  - rotate: re-wraps values encrypted with any of
+//    CLOWDR_CONFIG_ENCRYPTION_PREVIOUS_KEYS with CLOWDR_CONFIG_ENCRYPTION_KEY
+//
+// Without a conference id, every conference's values are processed. Once a
+// rotation is done, the old keys can be dropped from the environment.
+
+const USAGE = "Usage: encrypt-config <generate-key | encrypt | rotate> [conference id]";
+
+export default async function main() {
+    const [command, conferenceId] = process.argv.slice(2);
+    assert(command === "generate-key" || command === "encrypt" || command === "rotate", USAGE);
+
+    if (command === "generate-key") {
+        console.log(generateConfigEncryptionKey());
+        return;
+    }
+
+    // Check we have all the required environment keys for Parse
+    assert(process.env.REACT_APP_PARSE_APP_ID,
+        "REACT_APP_PARSE_APP_ID not provided.");
+    assert(process.env.REACT_APP_PARSE_JS_KEY,
+        "REACT_APP_PARSE_JS_KEY not provided.");
+    assert(process.env.PARSE_MASTER_KEY,
+        "PARSE_MASTER_KEY not provided.");
+    assert(process.env.REACT_APP_PARSE_DATABASE_URL,
+        "REACT_APP_PARSE_DATABASE_URL not provided.");
+
+    // Initialise Parse
+    Parse.initialize(
+        process.env.REACT_APP_PARSE_APP_ID,
+        process.env.REACT_APP_PARSE_JS_KEY,
+        process.env.PARSE_MASTER_KEY
+    );
+    Parse.serverURL = process.env.REACT_APP_PARSE_DATABASE_URL;
+
+    const { updated, skipped } = await encryptSecretConfigValues(command, conferenceId);
+    console.log(`Done: ${updated} updated, ${skipped} unchanged.`);
+}
+
+main();
@@ -0,0 +1,59 @@
+import Parse from "parse/node";
+import { Conference } from "../src/SchemaTypes";
+import { provisionConference } from "../src/Provisioning";
+import assert from "assert";
+
+// Sets up a conference's Parse roles and Twilio resources, and records them in
+// its configuration (see src/Provisioning.ts). Safe to run again, e.g. after
+// a failure part way through.
+//
+// Usage: npm run provision-conference -- <conference id> [--subaccount]
+//
+// If the conference has no Twilio account configured yet, TWILIO_ACCOUNT_SID
+// and TWILIO_AUTH_TOKEN from the environment are used - or, with
+// --subaccount, a subaccount is created under that account. Chat webhooks are
+// pointed at TWILIO_CHAT_PRE_WEBHOOK_URL/TWILIO_CHAT_POST_WEBHOOK_URL if set.
+
+const USAGE = "Usage: provision-conference <conference id> [--subaccount]";
+
+export default async function main() {
+    // Check we have all the required environment keys for Parse
+    assert(process.env.REACT_APP_PARSE_APP_ID,
+        "REACT_APP_PARSE_APP_ID not provided.");
+    assert(process.env.REACT_APP_PARSE_JS_KEY,
+        "REACT_APP_PARSE_JS_KEY not provided.");
+    assert(process.env.PARSE_MASTER_KEY,
+        "PARSE_MASTER_KEY not provided.");
+    assert(process.env.REACT_APP_PARSE_DATABASE_URL,
+        "REACT_APP_PARSE_DATABASE_URL not provided.");
+
+    const args = process.argv.slice(2);
+    const conferenceId = args.find(x => !x.startsWith("--"));
+    assert(conferenceId, USAGE);
+    assert(args.every(x => x === conferenceId || x === "--subaccount"), USAGE);
+
+    // Initialise Parse
+    Parse.initialize(
+        process.env.REACT_APP_PARSE_APP_ID,
+        process.env.REACT_APP_PARSE_JS_KEY,
+        process.env.PARSE_MASTER_KEY
+    );
+    Parse.serverURL = process.env.REACT_APP_PARSE_DATABASE_URL;
+
+    const conf = await new Parse.Query(Conference).get(conferenceId, { useMasterKey: true });
+    console.log(`Provisioning ${conf.get("name")} (${conf.id})...`);
+
+    const steps = await provisionConference(conf, {
+        accountSID: process.env.TWILIO_ACCOUNT_SID,
+        authToken: process.env.TWILIO_AUTH_TOKEN,
+        subaccount: args.includes("--subaccount"),
+        chatPreWebhookURL: process.env.TWILIO_CHAT_PRE_WEBHOOK_URL,
+        chatPostWebhookURL: process.env.TWILIO_CHAT_POST_WEBHOOK_URL
+    });
+    for (const step of steps) {
+        console.log(`  ${step.what}: ${step.result}${step.sid ? ` (${step.sid})` : ""}`);
+    }
+    console.log("Done.");
+}
+
+main();
@@ -1,6 +1,6 @@
 import Parse from "parse/node";
 import { getConfig } from "../src/Config";
-import { getTwilioClient } from "../src/Twilio";
+import { getProvider } from "../src/Twilio";
 import assert from "assert";
 
 export default async function main() {
@@ -24,7 +24,7 @@ export default async function main() {
 
     const conferenceId = "17XdxehHk3";
     const config = await getConfig(conferenceId);
-    const client = await getTwilioClient(conferenceId, config);
+    const client = await getProvider(conferenceId, config);
     const channels = await client.chat.services(config.TWILIO_CHAT_SERVICE_SID).channels.list();
     await Promise.all(channels.map(async channel => {
         console.log(`Deleting ${channel.sid}`);
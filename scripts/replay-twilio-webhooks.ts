@@ -0,0 +1,98 @@
+import Parse from "parse/node";
+import { getExpectedTwilioSignature } from "twilio/lib/webhooks/webhooks";
+import http from "http";
+import https from "https";
+import { readFileSync } from "fs";
+import { randomBytes } from "crypto";
+import { URL } from "url";
+import { stringify } from "querystring";
+import { getConfig } from "../src/Config";
+import assert from "assert";
+
+// Replays recorded Twilio webhook payloads against a running backend (e.g. one
+// started with CLOWDR_PROVIDER=fake), signing each with the conference's auth
+// token so they pass validation.
+//
+// Usage: npm run replay-twilio-webhooks -- <conference id> <payloads.json>
+//
+// The payloads file is a JSON array of
+//   { "kind": "chat" | "video" | "composition", "body": { ...the webhook's form fields } }
+// The string "$now" in a body is replaced with the current time.
+
+type RecordedWebhook = {
+    kind: "chat" | "video" | "composition";
+    body: { [k: string]: string };
+};
+
+const WEBHOOK_PATHS: { [K in RecordedWebhook["kind"]]: string } = {
+    chat: "/twilio/chat/event",
+    video: "/twilio/video/event",
+    composition: "/twilio/video/composition"
+};
+
+function post(url: string, signature: string, body: string): Promise<{ status: number, body: string }> {
+    const target = new URL(url);
+    return new Promise((resolve, reject) => {
+        const req = (target.protocol === "https:" ? https : http).request(target, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/x-www-form-urlencoded",
+                "Content-Length": Buffer.byteLength(body),
+                "X-Twilio-Signature": signature,
+                "I-Twilio-Idempotency-Token": randomBytes(16).toString("hex")
+            }
+        }, res => {
+            let data = "";
+            res.on("data", chunk => data += chunk);
+            res.on("end", () => resolve({ status: res.statusCode ?? 0, body: data }));
+        });
+        req.on("error", reject);
+        req.end(body);
+    });
+}
+
+export default async function main() {
+    // Check we have all the required environment keys for Parse
+    assert(process.env.REACT_APP_PARSE_APP_ID,
+        "REACT_APP_PARSE_APP_ID not provided.");
+    assert(process.env.REACT_APP_PARSE_JS_KEY,
+        "REACT_APP_PARSE_JS_KEY not provided.");
+    assert(process.env.PARSE_MASTER_KEY,
+        "PARSE_MASTER_KEY not provided.");
+    assert(process.env.REACT_APP_PARSE_DATABASE_URL,
+        "REACT_APP_PARSE_DATABASE_URL not provided.");
+
+    const [conferenceId, payloadsPath] = process.argv.slice(2);
+    assert(conferenceId && payloadsPath, "Usage: replay-twilio-webhooks <conference id> <payloads.json>");
+
+    // Initialise Parse
+    Parse.initialize(
+        process.env.REACT_APP_PARSE_APP_ID,
+        process.env.REACT_APP_PARSE_JS_KEY,
+        process.env.PARSE_MASTER_KEY
+    );
+    Parse.serverURL = process.env.REACT_APP_PARSE_DATABASE_URL;
+
+    const config = await getConfig(conferenceId);
+    assert(config.TWILIO_AUTH_TOKEN, "TWILIO_AUTH_TOKEN not configured for the conference.");
+
+    const backendURL = (process.env.BACKEND_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, "");
+    const webhooks: Array<RecordedWebhook> = JSON.parse(readFileSync(payloadsPath, "utf-8"));
+
+    for (const webhook of webhooks) {
+        const body: { [k: string]: string } = {
+            AccountSid: config.TWILIO_ACCOUNT_SID,
+            ...(webhook.kind === "chat" ? { InstanceSid: config.TWILIO_CHAT_SERVICE_SID } : {}),
+        };
+        for (const [key, value] of Object.entries(webhook.body)) {
+            body[key] = value === "$now" ? new Date().toISOString() : value;
+        }
+
+        const url = backendURL + WEBHOOK_PATHS[webhook.kind];
+        const signature = getExpectedTwilioSignature(config.TWILIO_AUTH_TOKEN, url, body);
+        const result = await post(url, signature, stringify(body));
+        console.log(`${webhook.kind} ${body.EventType ?? body.StatusCallbackEvent}: ${result.status} ${result.body}`);
+    }
+}
+
+main();
@@ -3,6 +3,7 @@ import runBackend from '../src/app';
 
 const TWILIO_CHAT_EVENT_URL = "/twilio/chat/event";
 const TWILIO_VIDEO_EVENT_URL = "/twilio/video/event";
+const TWILIO_VIDEO_COMPOSITION_URL = "/twilio/video/composition";
 const NGROK_STRIP_HHTPS = true;
 
 export default async function startNgrokServer() {
@@ -25,6 +26,7 @@ export default async function startNgrokServer() {
           (see Conference Configuration). If stuff doesn't work as expected, check
           values there first.`);
         process.env.TWILIO_VIDEO_WEBHOOK_URL = ngrokUrl + TWILIO_VIDEO_EVENT_URL;
+        process.env.TWILIO_VIDEO_COMPOSITION_WEBHOOK_URL = ngrokUrl + TWILIO_VIDEO_COMPOSITION_URL;
 
         process.env.SHOULD_CONFIGURE_TWILIO = "true";
         process.env.TWILIO_CHAT_PRE_WEBHOOK_URL = ngrokUrl + TWILIO_CHAT_EVENT_URL;
@@ -0,0 +1,252 @@
+import Parse from "parse/node";
+import { Request, Response, NextFunction } from 'express';
+
+import { handleRequestIntro, parseDate } from "./RequestHelpers";
+import { ConferenceT, VideoRoomParticipation, VideoRoomParticipationT } from "./SchemaTypes";
+
+// Attendance is computed from the VideoRoomParticipation records kept by the
+// video status callbacks (one per connection to a Twilio room).
+
+type RoomAttendance = {
+    room: string;
+    name: string;
+    sessions: number;
+    uniqueAttendees: number;
+    totalMinutes: number;
+    peakConcurrency: number;
+    peakAt: Date | undefined;
+};
+
+type UserAttendance = {
+    profile: string;
+    displayName: string;
+    totalMinutes: number;
+    rooms: Array<{ room: string, name: string, minutes: number }>;
+};
+
+type AttendanceReport = {
+    from: Date | undefined;
+    until: Date | undefined;
+    rooms: Array<RoomAttendance>;
+    users: Array<UserAttendance>;
+};
+
+type Interval = { room: string, roomName: string | undefined, session: string, identity: string, start: number, end: number };
+
+function toMinutes(ms: number): number {
+    return Math.round(ms / 6000) / 10;
+}
+
+/**
+ * Clips a participation to the reporting window. Connections still open are
+ * counted up to now; ones whose join we never heard about are skipped.
+ */
+function toInterval(participation: VideoRoomParticipationT, from: Date | undefined, until: Date | undefined): Interval | undefined {
+    const joinedAt = participation.get("joinedAt");
+    if (!joinedAt) {
+        return undefined;
+    }
+
+    const start = Math.max(joinedAt.getTime(), from?.getTime() ?? 0);
+    const end = Math.min(participation.get("leftAt")?.getTime() ?? Date.now(), until?.getTime() ?? Infinity);
+    if (end <= start) {
+        return undefined;
+    }
+    return {
+        room: participation.get("room").id,
+        roomName: participation.get("roomName"),
+        session: participation.get("twilioRoomSid"),
+        identity: participation.get("identity"),
+        start,
+        end
+    };
+}
+
+function getPeakConcurrency(intervals: Array<Interval>): { peak: number, at: Date | undefined } {
+    // Leaves sort before joins at the same instant, so a hand-over isn't double counted
+    const changes: Array<{ at: number, delta: number }> = [];
+    for (const x of intervals) {
+        changes.push({ at: x.start, delta: 1 }, { at: x.end, delta: -1 });
+    }
+    changes.sort((a, b) => a.at - b.at || a.delta - b.delta);
+
+    let current = 0;
+    let peak = 0;
+    let at: Date | undefined;
+    for (const change of changes) {
+        current += change.delta;
+        if (current > peak) {
+            peak = current;
+            at = new Date(change.at);
+        }
+    }
+    return { peak, at };
+}
+
+async function getNames(className: string, ids: Array<string>, field: string): Promise<Map<string, string>> {
+    const q = new Parse.Query(className);
+    q.containedIn("objectId", ids);
+    q.limit(ids.length);
+    const objects = await q.find({ useMasterKey: true });
+    return new Map(objects.map(x => [x.id, x.get(field)]));
+}
+
+async function computeAttendance(
+    conf: ConferenceT,
+    roomId: string | undefined,
+    from: Date | undefined,
+    until: Date | undefined
+): Promise<AttendanceReport> {
+    const q = new Parse.Query(VideoRoomParticipation);
+    q.equalTo("conference", conf);
+    if (roomId) {
+        q.equalTo("room", new Parse.Object("VideoRoom", { id: roomId }) as any);
+    }
+    if (until) {
+        q.lessThan("joinedAt", until);
+    }
+
+    const intervals: Array<Interval> = [];
+    await q.each(participation => {
+        const interval = toInterval(participation, from, until);
+        if (interval) {
+            intervals.push(interval);
+        }
+    }, { useMasterKey: true });
+
+    const roomIds = Array.from(new Set(intervals.map(x => x.room)));
+    const identities = Array.from(new Set(intervals.map(x => x.identity)));
+    // Participations recorded before they stored the room's name only have
+    // the room to go on, and ephemeral rooms are deleted when they end
+    const roomNames = await getNames("VideoRoom", roomIds.filter(room => !intervals.some(x => x.room === room && x.roomName)), "name");
+    for (const x of intervals) {
+        if (x.roomName) {
+            roomNames.set(x.room, x.roomName);
+        }
+    }
+    const displayNames = await getNames("UserProfile", identities, "displayName");
+
+    const rooms = roomIds.map(room => {
+        const roomIntervals = intervals.filter(x => x.room === room);
+        const { peak, at } = getPeakConcurrency(roomIntervals);
+        return {
+            room,
+            name: roomNames.get(room) ?? "",
+            sessions: new Set(roomIntervals.map(x => x.session)).size,
+            uniqueAttendees: new Set(roomIntervals.map(x => x.identity)).size,
+            totalMinutes: toMinutes(roomIntervals.reduce((acc, x) => acc + (x.end - x.start), 0)),
+            peakConcurrency: peak,
+            peakAt: at
+        };
+    });
+
+    const users = identities.map(profile => {
+        const userIntervals = intervals.filter(x => x.identity === profile);
+        const userRoomIds = Array.from(new Set(userIntervals.map(x => x.room)));
+        return {
+            profile,
+            displayName: displayNames.get(profile) ?? "",
+            totalMinutes: toMinutes(userIntervals.reduce((acc, x) => acc + (x.end - x.start), 0)),
+            rooms: userRoomIds.map(room => ({
+                room,
+                name: roomNames.get(room) ?? "",
+                minutes: toMinutes(userIntervals
+                    .filter(x => x.room === room)
+                    .reduce((acc, x) => acc + (x.end - x.start), 0))
+            }))
+        };
+    });
+
+    return { from, until, rooms, users };
+}
+
+// Spreadsheets treat cells starting with these as formulas
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+function toCSV(header: Array<string>, rows: Array<Array<string | number | undefined>>): string {
+    const escape = (value: string | number | undefined) => {
+        let str = value === undefined ? "" : value.toString();
+        // Names are user supplied - make sure they're only ever shown as text
+        if (typeof value === "string" && FORMULA_PREFIXES.some(x => str.startsWith(x))) {
+            str = "'" + str;
+        }
+        return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+    return [header, ...rows].map(row => row.map(escape).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - room?: video room id - defaults to all rooms
+ *  - from?, until?: reporting window (anything `new Date(...)` accepts)
+ *  - format?: "json" (default) or "csv"
+ *  - table?: for CSV only, "rooms" (default) or "users"
+ *
+ * Response body (JSON): { from, until, rooms: RoomAttendance[], users: UserAttendance[] }
+ * Response body (CSV): one row per room, or one row per user per room
+ */
+export async function handleGetAttendance(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, userProfile } = requestContext;
+
+        const roomId = req.body.room;
+        if (roomId !== undefined && typeof roomId !== "string") {
+            res.status(400);
+            res.send({ status: "Invalid room." });
+            return;
+        }
+
+        const from = parseDate(req.body.from);
+        const until = parseDate(req.body.until);
+        if (from === null || until === null) {
+            res.status(400);
+            res.send({ status: "Invalid from or until." });
+            return;
+        }
+
+        const format = req.body.format ?? "json";
+        const table = req.body.table ?? "rooms";
+        if ((format !== "json" && format !== "csv") || (table !== "rooms" && table !== "users")) {
+            res.status(400);
+            res.send({ status: "Invalid format or table." });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/video/attendance]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Room: '${roomId ?? "*"}'`);
+
+        const report = await computeAttendance(conf, roomId, from, until);
+
+        if (format === "json") {
+            res.set('Content-Type', 'application/json');
+            res.send(JSON.stringify(report));
+        }
+        else if (table === "rooms") {
+            res.set('Content-Type', 'text/csv');
+            res.attachment("attendance-rooms.csv");
+            res.send(toCSV(
+                ["room", "name", "sessions", "unique_attendees", "total_minutes", "peak_concurrency", "peak_at"],
+                report.rooms.map(x => [
+                    x.room, x.name, x.sessions, x.uniqueAttendees, x.totalMinutes, x.peakConcurrency, x.peakAt?.toISOString()
+                ])
+            ));
+        }
+        else {
+            res.set('Content-Type', 'text/csv');
+            res.attachment("attendance-users.csv");
+            res.send(toCSV(
+                ["profile", "display_name", "room", "room_name", "minutes"],
+                report.users.reduce((rows, user) => rows.concat(user.rooms.map(x => [
+                    user.profile, user.displayName, x.room, x.name, x.minutes
+                ])), [] as Array<Array<string | number>>)
+            ));
+        }
+    } catch (err) {
+        next(err);
+    }
+}
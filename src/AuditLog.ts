@@ -0,0 +1,217 @@
+import Parse from "parse/node";
+import { Request, Response, NextFunction } from 'express';
+
+import { AuditLog, AuditLogT, ConferenceT, UserProfileT } from "./SchemaTypes";
+import { handleRequestIntro, parseDate } from "./RequestHelpers";
+import { getParseAdminRole } from "./Roles";
+
+/**
+ * What caused an audited action:
+ *  - request: an API call made by the entry's actor
+ *  - webhook: a Twilio callback (there is no actor)
+ *  - system: the backend's own housekeeping, e.g. the video room scheduler
+ *    (there is no actor)
+ */
+export type AuditLogOrigin = {
+    via: "request" | "webhook" | "system";
+    // The route requested or, for system actions, the part of the backend
+    source: string;
+    ip?: string;
+    userAgent?: string;
+};
+
+export type AuditLogDetails = {
+    origin: AuditLogOrigin;
+    // State of the target before and after the action, where it has any
+    before?: object;
+    after?: object;
+};
+
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 500;
+
+export function getRequestOrigin(req: Request): AuditLogOrigin {
+    return {
+        via: "request",
+        source: req.path,
+        ip: req.ip,
+        userAgent: req.get("user-agent")
+    };
+}
+
+export function getWebhookOrigin(req: Request): AuditLogOrigin {
+    return {
+        via: "webhook",
+        source: req.path,
+        ip: req.ip
+    };
+}
+
+export function getSystemOrigin(source: string): AuditLogOrigin {
+    return { via: "system", source };
+}
+
+/**
+ * Records a privileged action taken through the backend. Only the
+ * conference's admins can read the log.
+ *
+ * @param actor Who took the action - undefined for webhook and system actions
+ * @param action A short identifier, e.g. "chat:message:delete"
+ * @param target The id/sid of the object acted upon
+ * @param data Any further details worth keeping (reason, ...)
+ * @param details Where the action came from, and the target's state around it
+ */
+export async function recordAuditLog(
+    conf: ConferenceT,
+    actor: UserProfileT | undefined,
+    action: string,
+    target: string,
+    data: object,
+    details: AuditLogDetails
+) {
+    const acl = new Parse.ACL();
+    acl.setPublicReadAccess(false);
+    acl.setPublicWriteAccess(false);
+    acl.setRoleReadAccess(await getParseAdminRole(conf), true);
+
+    const entry = new AuditLog();
+    entry.set("conference", conf);
+    if (actor) {
+        entry.set("actor", actor);
+    }
+    entry.set("action", action);
+    entry.set("target", target);
+    entry.set("data", data);
+    entry.set("before", details.before);
+    entry.set("after", details.after);
+    entry.set("origin", details.origin);
+    entry.setACL(acl);
+    await entry.save(null, { useMasterKey: true });
+}
+
+/**
+ * Like `recordAuditLog`, but failures are only logged - for actions that have
+ * already happened and shouldn't be reported as failed because of the log.
+ */
+export async function tryRecordAuditLog(
+    conf: ConferenceT,
+    actor: UserProfileT | undefined,
+    action: string,
+    target: string,
+    data: object,
+    details: AuditLogDetails
+) {
+    try {
+        await recordAuditLog(conf, actor, action, target, data, details);
+    }
+    catch (e) {
+        console.error(`Could not record audit log entry: ${action} of ${target}`, e);
+    }
+}
+
+function toResponseEntry(entry: AuditLogT) {
+    const actor = entry.get("actor") as UserProfileT | undefined;
+    return {
+        id: entry.id,
+        createdAt: entry.createdAt,
+        action: entry.get("action"),
+        actor: actor ? { id: actor.id, displayName: actor.get("displayName") } : undefined,
+        target: entry.get("target"),
+        data: entry.get("data"),
+        before: entry.get("before"),
+        after: entry.get("after"),
+        origin: entry.get("origin")
+    };
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - action?: exact action, or a prefix ending in ":*" (e.g. "video:*")
+ *  - actor?: user profile id
+ *  - target?: id/sid of the object acted upon
+ *  - from?, until?: time window (anything `new Date(...)` accepts)
+ *  - offset?: number of entries to skip, default 0
+ *  - limit?: number of entries to return, default 50, at most 500
+ *
+ * Response body:
+ *  - entries: newest first
+ *  - total: number of entries matching the filters
+ *  - offset, limit
+ *  or an error
+ */
+export async function handleGetAuditLog(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, userProfile } = requestContext;
+
+        const { action, actor, target } = req.body;
+        if ((action !== undefined && typeof action !== "string")
+            || (actor !== undefined && typeof actor !== "string")
+            || (target !== undefined && typeof target !== "string")) {
+            res.status(400);
+            res.send({ status: "Invalid action, actor or target." });
+            return;
+        }
+
+        const from = parseDate(req.body.from);
+        const until = parseDate(req.body.until);
+        if (from === null || until === null) {
+            res.status(400);
+            res.send({ status: "Invalid from or until." });
+            return;
+        }
+
+        const offset = req.body.offset !== undefined ? parseInt(req.body.offset, 10) : 0;
+        const limit = req.body.limit !== undefined ? parseInt(req.body.limit, 10) : DEFAULT_QUERY_LIMIT;
+        if (isNaN(offset) || offset < 0 || isNaN(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+            res.status(400);
+            res.send({ status: `Invalid offset or limit - at most ${MAX_QUERY_LIMIT} entries can be fetched at once` });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/auditlog]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Action: '${action ?? "*"}', Actor: '${actor ?? "*"}', Target: '${target ?? "*"}'`);
+
+        const q = new Parse.Query(AuditLog);
+        q.equalTo("conference", conf);
+        if (action?.endsWith(":*")) {
+            q.startsWith("action", action.substr(0, action.length - 1));
+        }
+        else if (action) {
+            q.equalTo("action", action);
+        }
+        if (actor) {
+            q.equalTo("actor", new Parse.Object("UserProfile", { id: actor }) as any);
+        }
+        if (target) {
+            q.equalTo("target", target);
+        }
+        if (from) {
+            q.greaterThanOrEqualTo("createdAt", from);
+        }
+        if (until) {
+            q.lessThan("createdAt", until);
+        }
+
+        const total = await q.count({ useMasterKey: true });
+
+        q.descending("createdAt");
+        q.include("actor");
+        q.skip(offset);
+        q.limit(limit);
+        const entries = await q.find({ useMasterKey: true });
+
+        res.send({
+            entries: entries.map(toResponseEntry),
+            total,
+            offset,
+            limit
+        });
+    } catch (err) {
+        next(err);
+    }
+}
@@ -0,0 +1,209 @@
+import Parse from "parse/node";
+import { Request, Response, NextFunction } from 'express';
+import { RoleNames } from "@clowdr-app/clowdr-db-schema/build/DataLayer/Schema/_Role";
+
+import { authenticateRequest, RequestContext } from "./RequestHelpers";
+import { isUserInRoles } from "./Roles";
+import { VideoRoomMode } from "./SchemaTypes";
+import { getProvider } from "./Twilio";
+
+// Who may do what. Every endpoint called by users (i.e. everything except
+// the Twilio webhooks, which are checked by signature) is registered with
+// `authorize(action)`: the caller's session is checked, then the action's
+// policy, and only then does the handler run. Handlers don't check
+// permissions themselves, and an endpoint without a policy refuses every
+// request (see `handleRequestIntro`).
+
+export type Action =
+    | "auditlog:read"
+    | "chat:message:moderate"
+    | "chat:reaction"
+    | "chat:token"
+    | "conference:reload"
+    | "moderation:report"
+    | "moderation:resolve"
+    | "users:ban"
+    | "users:roles"
+    | "video:attendance"
+    | "video:room:acl"
+    | "video:room:create"
+    | "video:room:delete"
+    | "video:room:moderate"
+    | "video:token"
+    | "video:token:refresh";
+
+type Rule = (req: Request, requestContext: RequestContext) => Promise<boolean>;
+
+/** Anyone with a profile in the conference (banned users never get this far) */
+const anyMember: Rule = async () => true;
+
+/** Members with any of the given conference roles */
+function hasRole(...roles: Array<RoleNames>): Rule {
+    return (req, { sessionObj, conf }) => isUserInRoles(sessionObj.get("user").id, conf.id, roles);
+}
+
+function anyOf(...rules: Array<Rule>): Rule {
+    return async (req, requestContext) => {
+        for (const rule of rules) {
+            if (await rule(req, requestContext)) {
+                return true;
+            }
+        }
+        return false;
+    };
+}
+
+function allOf(...rules: Array<Rule>): Rule {
+    return async (req, requestContext) => {
+        for (const rule of rules) {
+            if (!await rule(req, requestContext)) {
+                return false;
+            }
+        }
+        return true;
+    };
+}
+
+/** Applies `rule` only to requests matching `predicate` - others are allowed */
+function onlyIf(predicate: (req: Request) => boolean, rule: Rule): Rule {
+    return async (req, requestContext) => !predicate(req) || rule(req, requestContext);
+}
+
+function getBodyId(req: Request, field: string): string | undefined {
+    const id = req.body[field];
+    return id && typeof id === "string" ? id : undefined;
+}
+
+/** The object named by `field` of the request body is in the conference and its ACL lets the caller read it */
+function canRead(className: string, field: string): Rule {
+    return async (req, { sessionToken, conf }) => {
+        const id = getBodyId(req, field);
+        if (!id) {
+            return false;
+        }
+
+        const q = new Parse.Query(className);
+        q.equalTo("conference", conf);
+        try {
+            await q.get(id, { sessionToken });
+            return true;
+        }
+        catch (e) {
+            return false;
+        }
+    };
+}
+
+/** The object named by `field` of the request body is in the conference and was created by the caller */
+function isCreator(className: string, field: string): Rule {
+    return async (req, { conf, userProfile }) => {
+        const id = getBodyId(req, field);
+        if (!id) {
+            return false;
+        }
+
+        const q = new Parse.Query(className);
+        q.equalTo("conference", conf);
+        const object = await q.get(id, { useMasterKey: true }).catch(() => undefined);
+        return !!object && object.get("creator")?.id === userProfile.id;
+    };
+}
+
+/** The caller is a member of the Twilio chat channel named by `field` of the request body */
+function isChannelMember(field: string): Rule {
+    return async (req, { conf, config, userProfile }) => {
+        const channelSid = getBodyId(req, field);
+        if (!channelSid) {
+            return false;
+        }
+
+        const provider = await getProvider(conf.id, config);
+        try {
+            const members = await provider.chat
+                .services(config.TWILIO_CHAT_SERVICE_SID)
+                .channels(channelSid)
+                .members.list({ identity: userProfile.id });
+            return members.some(x => x.identity === userProfile.id);
+        }
+        catch (e) {
+            // No such channel
+            return false;
+        }
+    };
+}
+
+// Who may create which kinds of video room
+const ROOM_CREATION_ROLES: {
+    persistence: { [K in "ephemeral" | "persistent"]: Array<RoleNames> },
+    modes: { [K in VideoRoomMode]: Array<RoleNames> }
+} = {
+    persistence: {
+        "ephemeral": ["admin", "manager", "attendee"],
+        "persistent": ["admin", "manager"]
+    },
+    modes: {
+        "group": ["admin", "manager"],
+        "group-small": ["admin", "manager", "attendee"],
+        "peer-to-peer": ["admin", "manager", "attendee"]
+    }
+};
+
+function getRoomCreationRoles<T extends { [k: string]: Array<RoleNames> }>(roles: T, key: unknown): Array<RoleNames> {
+    return typeof key === "string" && Object.prototype.hasOwnProperty.call(roles, key) ? roles[key] : [];
+}
+
+const canCreateVideoRoom: Rule = (req, requestContext) => allOf(
+    hasRole(...getRoomCreationRoles(ROOM_CREATION_ROLES.persistence, req.body.persistence ?? "ephemeral")),
+    hasRole(...getRoomCreationRoles(ROOM_CREATION_ROLES.modes, req.body.mode ?? "group-small"))
+)(req, requestContext);
+
+const POLICIES: { [K in Action]: Rule } = {
+    "auditlog:read": hasRole("admin"),
+    "chat:message:moderate": hasRole("admin", "manager"),
+    "chat:reaction": isChannelMember("channel"),
+    "chat:token": anyMember,
+    "conference:reload": hasRole("admin"),
+    // Only members can see (and so report) a channel's messages
+    "moderation:report": onlyIf(req => req.body.targetType === "message", isChannelMember("channel")),
+    "moderation:resolve": hasRole("admin", "manager"),
+    "users:ban": hasRole("admin", "manager"),
+    "users:roles": hasRole("admin"),
+    "video:attendance": hasRole("admin"),
+    "video:room:acl": anyOf(hasRole("admin", "manager"), isCreator("VideoRoom", "room")),
+    "video:room:create": canCreateVideoRoom,
+    "video:room:delete": hasRole("admin", "manager"),
+    "video:room:moderate": hasRole("admin", "manager"),
+    "video:token": canRead("VideoRoom", "room"),
+    // The room is only known from the old token, which the handler checks
+    // is still readable by the caller
+    "video:token:refresh": anyMember
+};
+
+/**
+ * Middleware checking the caller may perform `action`. On success the
+ * caller's session details are left for the handler's `handleRequestIntro`.
+ */
+export function authorize(action: Action) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const requestContext = await authenticateRequest(req, res);
+            if (!requestContext) {
+                return;
+            }
+
+            const policy: Rule | undefined = POLICIES[action];
+            if (!policy || !await policy(req, requestContext)) {
+                const { conf, userProfile } = requestContext;
+                console.log(`${new Date().toUTCString()} [${req.path}]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Denied: ${action}`);
+                res.status(403);
+                res.send({ status: "Permission denied." });
+                return;
+            }
+
+            res.locals.requestContext = requestContext;
+            next();
+        } catch (err) {
+            next(err);
+        }
+    };
+}
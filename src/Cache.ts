@@ -0,0 +1,51 @@
+// How long cached conference data (config, roles, ...) is trusted before it
+// is fetched again. Reloading a conference (see `ConferenceReload.ts`)
+// invalidates it straight away.
+const DEFAULT_CACHE_TTL_SECONDS = 60 * 5;
+
+export function getCacheTTLMs(): number {
+    const value = process.env.CLOWDR_CACHE_TTL_SECONDS;
+    const ttl = value ? parseInt(value, 10) : NaN;
+    if (value && (isNaN(ttl) || ttl < 0)) {
+        console.warn(`Invalid CLOWDR_CACHE_TTL_SECONDS (${value}) - using default.`);
+    }
+    return (isNaN(ttl) || ttl < 0 ? DEFAULT_CACHE_TTL_SECONDS : ttl) * 1000;
+}
+
+/**
+ * A map whose entries are forgotten `ttlMs` after they were set.
+ */
+export class ExpiringCache<V> {
+    private entries = new Map<string, { value: V, expiresAt: number }>();
+
+    constructor(private ttlMs: number = getCacheTTLMs()) {
+    }
+
+    get(key: string): V | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (Date.now() >= entry.expiresAt) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry.value;
+    }
+
+    set(key: string, value: V) {
+        this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    }
+
+    delete(key: string) {
+        this.entries.delete(key);
+    }
+
+    deleteWhere(predicate: (key: string) => boolean) {
+        for (const key of Array.from(this.entries.keys())) {
+            if (predicate(key)) {
+                this.entries.delete(key);
+            }
+        }
+    }
+}
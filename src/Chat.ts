@@ -1,9 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 
-import { generateChatToken } from "./tokens";
+import { decodeToken, generateChatToken, isTokenDueForRefresh } from "./tokens";
 
 import { handleRequestIntro } from './RequestHelpers';
-import { getTwilioClient } from "./Twilio";
+import { getProvider } from "./Twilio";
+import { getRequestOrigin, recordAuditLog } from "./AuditLog";
+import { getTokenTTL } from "./Config";
+
+const REDACTED_MESSAGE_BODY = "[This message was removed by a moderator]";
 
 export async function handleGenerateFreshToken(req: Request, res: Response, next: NextFunction) {
     try {
@@ -18,8 +22,55 @@ export async function handleGenerateFreshToken(req: Request, res: Response, next
         const identity = userProfile.id;
         const sessionID = sessionObj.id;
 
-        // TODO: Put Twilio token TTL (time-to-live) into configuration in database
-        const expiryDistanceSeconds = 3600 * 3;
+        const expiryDistanceSeconds = getTokenTTL(config, "chat");
+        const accessToken = generateChatToken(config, identity, sessionID, expiryDistanceSeconds);
+        res.set('Content-Type', 'application/json');
+        res.send(JSON.stringify({
+            token: accessToken.toJwt(),
+            identity,
+            expiry: new Date().getTime() + (expiryDistanceSeconds * 1000)
+        }));
+    } catch (err) {
+        next(err);
+    }
+}
+
+/**
+ * Issues a fresh chat token in exchange for one that is about to expire.
+ *
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - token: the chat token being replaced
+ *
+ * Response body: as for /chat/token
+ */
+export async function handleRefreshToken(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { sessionObj, conf, config, userProfile } = requestContext;
+
+        const oldToken = typeof req.body.token === "string" ? decodeToken(config, req.body.token) : undefined;
+        if (!oldToken || !oldToken.hasChatGrant || oldToken.identity !== userProfile.id) {
+            res.status(400);
+            res.send({ status: "Invalid or missing token" });
+            return;
+        }
+        if (!isTokenDueForRefresh(oldToken)) {
+            res.status(400);
+            res.send({ status: "Token is not due for refresh" });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/chat/token/refresh]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id})`);
+
+        const identity = userProfile.id;
+        const sessionID = sessionObj.id;
+
+        const expiryDistanceSeconds = getTokenTTL(config, "chat");
         const accessToken = generateChatToken(config, identity, sessionID, expiryDistanceSeconds);
         res.set('Content-Type', 'application/json');
         res.send(JSON.stringify({
@@ -75,26 +126,29 @@ export async function handleAddReaction(req: Request, res: Response, next: NextF
             return;
         }
 
-        const twilioClient = await getTwilioClient(conf.id, config);
-        const chatService = twilioClient.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+        const provider = await getProvider(conf.id, config);
+        const chatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
         const channel = chatService.channels(channelSid);
-        const members = await channel.members.list();
-        if (!members.some(x => x.identity === userProfile.id)) {
-            res.status(403);
-            res.send({ status: "Invalid channel" });
-            return;
-        }
         const message = await channel.messages(messageSid).fetch();
         let attributes = JSON.parse(message.attributes);
         const reactions: { [k: string]: Array<string> } = attributes?.reactions ?? {};
         const reactionUsers = reactions[reaction] ?? [];
         if (!reactionUsers.includes(userProfile.id)) {
+            const before = { reactions: JSON.parse(JSON.stringify(reactions)) };
             reactionUsers.push(userProfile.id);
             reactions[reaction] = reactionUsers;
             attributes = { ...(attributes ?? {}), reactions };
             await message.update({
                 attributes: JSON.stringify(attributes)
             });
+            await recordAuditLog(conf, userProfile, "chat:reaction:add", messageSid, {
+                channel: channelSid,
+                reaction
+            }, {
+                origin: getRequestOrigin(req),
+                before,
+                after: { reactions }
+            });
         }
 
         res.set('Content-Type', 'application/json');
@@ -147,20 +201,15 @@ export async function handleRemoveReaction(req: Request, res: Response, next: Ne
             return;
         }
 
-        const twilioClient = await getTwilioClient(conf.id, config);
-        const chatService = twilioClient.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+        const provider = await getProvider(conf.id, config);
+        const chatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
         const channel = chatService.channels(channelSid);
-        const members = await channel.members.list();
-        if (!members.some(x => x.identity === userProfile.id)) {
-            res.status(403);
-            res.send({ status: "Invalid channel" });
-            return;
-        }
         const message = await channel.messages(messageSid).fetch();
         let attributes = JSON.parse(message.attributes);
         const reactions: { [k: string]: Array<string> } = attributes?.reactions ?? {};
         const reactionUsers = reactions[reaction] ?? [];
         if (reactionUsers.includes(userProfile.id)) {
+            const before = { reactions: JSON.parse(JSON.stringify(reactions)) };
             reactions[reaction] = reactionUsers.filter(x => x !== userProfile.id);
             if (reactions[reaction].length === 0) {
                 delete reactions[reaction];
@@ -169,8 +218,164 @@ export async function handleRemoveReaction(req: Request, res: Response, next: Ne
             await message.update({
                 attributes: JSON.stringify(attributes)
             });
+            await recordAuditLog(conf, userProfile, "chat:reaction:remove", messageSid, {
+                channel: channelSid,
+                reaction
+            }, {
+                origin: getRequestOrigin(req),
+                before,
+                after: { reactions }
+            });
+        }
+
+        res.set('Content-Type', 'application/json');
+        res.send(JSON.stringify({
+            ok: true
+        }));
+    } catch (err) {
+        next(err);
+    }
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - channel: channel sid
+ *  - message: message sid
+ *  - reason: (optional) why the message is being removed
+ *
+ * Response body:
+ *  - ok: true
+ *  or an error
+ */
+export async function handleDeleteMessage(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, config, userProfile } = requestContext;
+
+        const channelSid = req.body.channel;
+        if (!channelSid || typeof channelSid !== "string") {
+            res.status(400);
+            res.send({ status: "Invalid or missing channel sid" });
+            return;
+        }
+
+        const messageSid = req.body.message;
+        if (!messageSid || typeof messageSid !== "string") {
+            res.status(400);
+            res.send({ status: "Invalid or missing message sid" });
+            return;
         }
 
+        const reason = typeof req.body.reason === "string" ? req.body.reason : "";
+
+        console.log(`${new Date().toUTCString()} [/chat/message/delete]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Channel: '${channelSid}', Message: '${messageSid}'`);
+
+        const provider = await getProvider(conf.id, config);
+        const chatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+        const message = await chatService.channels(channelSid).messages(messageSid).fetch();
+        await message.remove();
+
+        await recordAuditLog(conf, userProfile, "chat:message:delete", messageSid, {
+            channel: channelSid,
+            author: message.from,
+            reason
+        }, {
+            origin: getRequestOrigin(req),
+            before: {
+                body: message.body,
+                attributes: message.attributes
+            }
+        });
+
+        res.set('Content-Type', 'application/json');
+        res.send(JSON.stringify({
+            ok: true
+        }));
+    } catch (err) {
+        next(err);
+    }
+}
+
+/**
+ * Replaces the body of a message, keeping it (and its reactions) in place
+ * but hiding its content.
+ *
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - channel: channel sid
+ *  - message: message sid
+ *  - reason: (optional) why the message is being redacted
+ *
+ * Response body:
+ *  - ok: true
+ *  or an error
+ */
+export async function handleRedactMessage(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, config, userProfile } = requestContext;
+
+        const channelSid = req.body.channel;
+        if (!channelSid || typeof channelSid !== "string") {
+            res.status(400);
+            res.send({ status: "Invalid or missing channel sid" });
+            return;
+        }
+
+        const messageSid = req.body.message;
+        if (!messageSid || typeof messageSid !== "string") {
+            res.status(400);
+            res.send({ status: "Invalid or missing message sid" });
+            return;
+        }
+
+        const reason = typeof req.body.reason === "string" ? req.body.reason : "";
+
+        console.log(`${new Date().toUTCString()} [/chat/message/redact]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Channel: '${channelSid}', Message: '${messageSid}'`);
+
+        const provider = await getProvider(conf.id, config);
+        const chatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+        const message = await chatService.channels(channelSid).messages(messageSid).fetch();
+        const originalBody = message.body;
+        const originalAttributes = message.attributes;
+        let attributes = JSON.parse(message.attributes);
+        attributes = {
+            ...(attributes ?? {}),
+            redacted: {
+                by: userProfile.id,
+                at: Date.now()
+            }
+        };
+        await message.update({
+            body: REDACTED_MESSAGE_BODY,
+            attributes: JSON.stringify(attributes)
+        });
+
+        await recordAuditLog(conf, userProfile, "chat:message:redact", messageSid, {
+            channel: channelSid,
+            author: message.from,
+            reason
+        }, {
+            origin: getRequestOrigin(req),
+            before: {
+                body: originalBody,
+                attributes: originalAttributes
+            },
+            after: {
+                body: REDACTED_MESSAGE_BODY,
+                attributes: JSON.stringify(attributes)
+            }
+        });
+
         res.set('Content-Type', 'application/json');
         res.send(JSON.stringify({
             ok: true
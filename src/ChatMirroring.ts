@@ -0,0 +1,194 @@
+import Parse from "parse/node";
+
+import { ClowdrConfig } from "./Config";
+import { ConferenceT, TextChat, TextChatMessage, TextChatMessageT, TextChatT } from "./SchemaTypes";
+import { getProvider, TwilioChatWebhookBody } from "./Twilio";
+import { TWILIO_CHAT_SERVICE_SPEC } from "./TwilioServiceSpec";
+
+// Twilio limits the number of members per channel, so once a channel grows
+// large we start mirroring its messages into Parse. Mirroring is sticky: a
+// channel never switches back, even if members leave again.
+
+const DEFAULT_MIRRORING_THRESHOLD = 750;
+
+function getMirroringThreshold(config: ClowdrConfig): number {
+    const threshold = parseInt(config.TWILIO_CHAT_MIRRORING_THRESHOLD ?? "", 10);
+    if (isNaN(threshold) || threshold <= 0) {
+        return DEFAULT_MIRRORING_THRESHOLD;
+    }
+    return threshold;
+}
+
+async function getTextChatByTwilioID(conf: ConferenceT, channelSid: string): Promise<TextChatT | undefined> {
+    const q = new Parse.Query(TextChat);
+    q.equalTo("conference", conf);
+    q.equalTo("twilioID", channelSid);
+    return q.first({ useMasterKey: true });
+}
+
+async function getMirroredTextChat(conf: ConferenceT, channelSid: string): Promise<TextChatT | undefined> {
+    const textChat = await getTextChatByTwilioID(conf, channelSid);
+    if (!textChat || !textChat.get("mirrored")) {
+        return undefined;
+    }
+    return textChat;
+}
+
+async function getMirroredMessage(textChat: TextChatT, messageSid: string): Promise<TextChatMessageT | undefined> {
+    const q = new Parse.Query(TextChatMessage);
+    q.equalTo("chat", textChat);
+    q.equalTo("twilioID", messageSid);
+    return q.first({ useMasterKey: true });
+}
+
+function parseAttributes(attributes: string | undefined): object | undefined {
+    if (!attributes) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(attributes);
+    }
+    catch {
+        return undefined;
+    }
+}
+
+/**
+ * Called after a member joins a channel. Switches the channel into mirrored
+ * mode once it reaches the configured member threshold.
+ *
+ * @param webhookURL Where Twilio should send the channel's message events.
+ */
+export async function checkChannelMirroring(
+    conf: ConferenceT,
+    config: ClowdrConfig,
+    channelSid: string,
+    webhookURL: string
+) {
+    const textChat = await getTextChatByTwilioID(conf, channelSid);
+    if (!textChat || textChat.get("mirrored")) {
+        return;
+    }
+
+    const provider = await getProvider(conf.id, config);
+    const channelCtx = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID).channels(channelSid);
+    const channel = await channelCtx.fetch();
+    const threshold = getMirroringThreshold(config);
+    if (channel.membersCount < threshold) {
+        return;
+    }
+
+    console.log(`Channel ${channelSid} (${textChat.get("name")}) has ${channel.membersCount} members - switching to mirrored mode.`);
+
+    const existingWebhooks = await channelCtx.webhooks.list();
+    if (!existingWebhooks.some(x => x.configuration?.url === webhookURL)) {
+        await channelCtx.webhooks.create({
+            type: "webhook",
+            configuration: {
+                url: webhookURL,
+                method: "POST",
+                filters: TWILIO_CHAT_SERVICE_SPEC.channelMirroringWebhookFilters
+            }
+        });
+    }
+
+    await textChat.save({ mirrored: true }, { useMasterKey: true });
+}
+
+export async function onMessageSent(conf: ConferenceT, body: TwilioChatWebhookBody) {
+    const { ChannelSid: channelSid, MessageSid: messageSid } = body;
+    if (!channelSid || !messageSid) {
+        return;
+    }
+
+    const textChat = await getMirroredTextChat(conf, channelSid);
+    if (!textChat) {
+        return;
+    }
+
+    // Twilio may retry a webhook, so don't mirror the same message twice
+    const message = await getMirroredMessage(textChat, messageSid) ?? new TextChatMessage();
+    message.set("chat", textChat);
+    message.set("twilioID", messageSid);
+    message.set("index", parseInt(body.Index ?? "", 10));
+    message.set("author", body.From ?? "");
+    message.set("text", body.Body ?? "");
+    message.set("attributes", parseAttributes(body.Attributes));
+    message.set("sentAt", body.DateCreated ? new Date(body.DateCreated) : new Date());
+    if (body.MediaSid) {
+        message.set("media", {
+            sid: body.MediaSid,
+            filename: body.MediaFilename ?? "",
+            contentType: body.MediaContentType ?? "",
+            size: parseInt(body.MediaSize ?? "", 10)
+        });
+    }
+
+    const acl = textChat.getACL();
+    if (acl) {
+        message.setACL(acl);
+    }
+    await message.save(null, { useMasterKey: true });
+}
+
+export async function onMessageUpdated(conf: ConferenceT, body: TwilioChatWebhookBody) {
+    const { ChannelSid: channelSid, MessageSid: messageSid } = body;
+    if (!channelSid || !messageSid) {
+        return;
+    }
+
+    const textChat = await getMirroredTextChat(conf, channelSid);
+    if (!textChat) {
+        return;
+    }
+
+    const message = await getMirroredMessage(textChat, messageSid);
+    if (!message) {
+        // Sent before the channel switched to mirrored mode
+        await onMessageSent(conf, body);
+        return;
+    }
+
+    message.set("text", body.Body ?? "");
+    message.set("attributes", parseAttributes(body.Attributes));
+    await message.save(null, { useMasterKey: true });
+}
+
+export async function onMessageRemoved(conf: ConferenceT, body: TwilioChatWebhookBody) {
+    const { ChannelSid: channelSid, MessageSid: messageSid } = body;
+    if (!channelSid || !messageSid) {
+        return;
+    }
+
+    const textChat = await getMirroredTextChat(conf, channelSid);
+    if (!textChat) {
+        return;
+    }
+
+    const message = await getMirroredMessage(textChat, messageSid);
+    if (message) {
+        await message.destroy({ useMasterKey: true });
+    }
+}
+
+export async function onChannelUpdated(conf: ConferenceT, body: TwilioChatWebhookBody) {
+    const textChat = body.ChannelSid ? await getMirroredTextChat(conf, body.ChannelSid) : undefined;
+    if (!textChat) {
+        return;
+    }
+
+    if (body.FriendlyName && body.FriendlyName !== textChat.get("name")) {
+        await textChat.save({ name: body.FriendlyName }, { useMasterKey: true });
+    }
+}
+
+export async function onChannelDestroyed(conf: ConferenceT, body: TwilioChatWebhookBody) {
+    const textChat = body.ChannelSid ? await getMirroredTextChat(conf, body.ChannelSid) : undefined;
+    if (!textChat) {
+        return;
+    }
+
+    // Keep the mirrored history, but the Twilio channel is gone for good
+    console.log(`Mirrored channel ${body.ChannelSid} (${textChat.get("name")}) was destroyed.`);
+    await textChat.save({ twilioID: "" }, { useMasterKey: true });
+}
@@ -0,0 +1,112 @@
+import Parse from "parse/node";
+import { Request, Response, NextFunction } from 'express';
+
+import { getRequestOrigin, getSystemOrigin, recordAuditLog, tryRecordAuditLog } from "./AuditLog";
+import { getConfig, invalidateConfig } from "./Config";
+import { getConference, invalidateConference } from "./ParseHelpers";
+import { handleRequestIntro } from "./RequestHelpers";
+import { invalidateRoles } from "./Roles";
+import { ConferenceConfig, ConferenceConfigT } from "./SchemaTypes";
+import { configureTwilio, invalidateProvider } from "./Twilio";
+
+// Conference data is cached (see `Cache.ts`). Reloading a conference drops
+// everything cached for it and rebuilds what depends on it - the Twilio
+// client and the Twilio configuration - so new config takes effect without
+// a restart. Reloads happen on request, and on config changes seen through
+// Parse Live Query when `PARSE_LIVE_QUERY_SERVER_URL` is set.
+
+// Config rows are usually changed several at a time
+const LIVE_QUERY_RELOAD_DELAY_MS = 2000;
+
+/**
+ * Drops everything cached for the conference and reconfigures Twilio with its
+ * current config.
+ */
+export async function reloadConference(confId: string) {
+    console.log(`Reloading conference ${confId}`);
+    invalidateConfig(confId);
+    invalidateRoles(confId);
+    invalidateConference(confId);
+    invalidateProvider(confId);
+
+    const conf = await getConference(confId);
+    const config = await getConfig(conf.id);
+    await configureTwilio(conf.id, config);
+    return conf;
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *
+ * Response body: { status: "OK" } or an error
+ */
+export async function handleReloadConference(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, userProfile } = requestContext;
+
+        console.log(`${new Date().toUTCString()} [/conference/reload]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id})`);
+
+        await reloadConference(conf.id);
+        await recordAuditLog(conf, userProfile, "conference:reload", conf.id, {}, {
+            origin: getRequestOrigin(req)
+        });
+
+        res.send({ status: "OK" });
+    } catch (err) {
+        next(err);
+    }
+}
+
+const pendingReloads = new Map<string, NodeJS.Timeout>();
+
+function scheduleReload(confId: string) {
+    const pending = pendingReloads.get(confId);
+    if (pending) {
+        clearTimeout(pending);
+    }
+
+    pendingReloads.set(confId, setTimeout(async () => {
+        pendingReloads.delete(confId);
+        try {
+            const conf = await reloadConference(confId);
+            await tryRecordAuditLog(conf, undefined, "conference:reload", conf.id, {
+                reason: "Configuration changed"
+            }, {
+                origin: getSystemOrigin("live query")
+            });
+        }
+        catch (e) {
+            console.error(`Failed to reload conference ${confId}`, e);
+        }
+    }, LIVE_QUERY_RELOAD_DELAY_MS));
+}
+
+/**
+ * Reloads conferences whose configuration changes, if Live Query is set up.
+ */
+export async function watchConferenceConfig() {
+    const liveQueryServerURL = process.env.PARSE_LIVE_QUERY_SERVER_URL;
+    if (!liveQueryServerURL) {
+        console.log("PARSE_LIVE_QUERY_SERVER_URL not provided - config changes only take effect on reload or cache expiry.");
+        return;
+    }
+    Parse.liveQueryServerURL = liveQueryServerURL;
+
+    const subscription = await new Parse.Query(ConferenceConfig).subscribe();
+    const onChange = (obj: Parse.Object) => {
+        const conf = (obj as ConferenceConfigT).get("conference");
+        if (conf) {
+            scheduleReload(conf.id);
+        }
+    };
+    for (const event of ["create", "update", "enter", "leave", "delete"] as const) {
+        subscription.on(event, onChange);
+    }
+    console.log("Watching conference configuration for changes.");
+}
@@ -1,7 +1,20 @@
 import {
-    ConferenceConfig
+    ConferenceConfig,
+    ConferenceT
 } from "./SchemaTypes";
 import Parse from "parse/node";
+import { ProviderName } from "./Provider";
+import { ExpiringCache } from "./Cache";
+import {
+    decryptConfigValue,
+    encryptConfigValue,
+    getConfigDecryptionKeys,
+    getConfigEncryptionKey,
+    isEncryptedConfigValue,
+    isSecretConfigKey,
+    rewrapConfigValue,
+    SECRET_CONFIG_KEYS
+} from "./ConfigEncryption";
 
 import assert from "assert";
 
@@ -13,9 +26,20 @@ export type ClowdrConfig = {
     TWILIO_CHAT_SERVICE_SID: string;
     TWILIO_ANNOUNCEMENTS_CHANNEL_SID: string;
     TWILIO_VIDEO_WEBHOOK_URL: string;
+    // Where Twilio reports the progress of recording compositions
+    TWILIO_VIDEO_COMPOSITION_WEBHOOK_URL: string;
 
     REACT_APP_TWILIO_CALLBACK_URL: string;
     REACT_APP_FRONTEND_URL: string;
+
+    // Optional - number of members at which a channel switches to being mirrored
+    TWILIO_CHAT_MIRRORING_THRESHOLD?: string;
+    // Optional - token lifetimes in seconds
+    TWILIO_CHAT_TOKEN_TTL?: string;
+    TWILIO_VIDEO_TOKEN_TTL?: string;
+
+    // Which messaging/video provider to talk to - "fake" keeps everything in memory
+    PROVIDER: ProviderName;
 } & ({
     SHOULD_CONFIGURE_TWILIO: false;
 } | {
@@ -24,9 +48,20 @@ export type ClowdrConfig = {
     //    They will be overwritten by the environment variables
     TWILIO_CHAT_PRE_WEBHOOK_URL: string;
     TWILIO_CHAT_POST_WEBHOOK_URL: string;
+    // What to do with live video rooms still reporting to an old webhook URL
+    TWILIO_VIDEO_MIGRATION_MODE: VideoMigrationMode;
+    // When to end those rooms in "scheduled" mode
+    TWILIO_VIDEO_MIGRATION_TIME?: Date;
 });
 
-const conferenceConfigCache = new Map<string, ClowdrConfig>();
+/**
+ * - drain: leave rooms running until they empty and end by themselves
+ * - scheduled: warn participants, then end rooms at TWILIO_VIDEO_MIGRATION_TIME
+ * - end: warn participants, then end rooms shortly afterwards
+ */
+export type VideoMigrationMode = "drain" | "scheduled" | "end";
+
+const conferenceConfigCache = new ExpiringCache<ClowdrConfig>();
 export async function getConfig(confId: string): Promise<ClowdrConfig> {
     // Did we already cache the config for this conference?
     const _config: ClowdrConfig | null = conferenceConfigCache.get(confId) ?? null;
@@ -41,8 +76,19 @@ export async function getConfig(confId: string): Promise<ClowdrConfig> {
     const q = new Parse.Query(ConferenceConfig)
     q.equalTo("conference", new Parse.Object("Conference", { id: confId }) as any);
     const res = await q.find({ useMasterKey: true });
+    const decryptionKeys = getConfigDecryptionKeys();
     for (const obj of res) {
-        config[obj.get("key")] = obj.get("value");
+        const key = obj.get("key");
+        const value = obj.get("value");
+        if (typeof value === "string" && isEncryptedConfigValue(value)) {
+            config[key] = decryptConfigValue(value, decryptionKeys);
+        }
+        else {
+            if (isSecretConfigKey(key) && decryptionKeys.length > 0) {
+                console.warn(`${confId}:${key} is stored unencrypted - run \`npm run encrypt-config\`.`);
+            }
+            config[key] = value;
+        }
     }
 
     // Maybe load some config from the environment
@@ -56,19 +102,175 @@ export async function getConfig(confId: string): Promise<ClowdrConfig> {
     }
 
     // Definitely load some config from the environment
+    const provider = process.env.CLOWDR_PROVIDER || "twilio";
+    assert(provider === "twilio" || provider === "fake", `Invalid CLOWDR_PROVIDER: ${provider}`);
+    config.PROVIDER = provider;
+
     config.SHOULD_CONFIGURE_TWILIO = !!process.env.SHOULD_CONFIGURE_TWILIO;
     if (config.SHOULD_CONFIGURE_TWILIO) {
         assert(process.env.TWILIO_CHAT_PRE_WEBHOOK_URL);
         assert(process.env.TWILIO_CHAT_POST_WEBHOOK_URL);
         config.TWILIO_CHAT_PRE_WEBHOOK_URL = process.env.TWILIO_CHAT_PRE_WEBHOOK_URL;
         config.TWILIO_CHAT_POST_WEBHOOK_URL = process.env.TWILIO_CHAT_POST_WEBHOOK_URL;
+
+        const migrationMode = process.env.TWILIO_VIDEO_MIGRATION_MODE || "drain";
+        assert(migrationMode === "drain" || migrationMode === "scheduled" || migrationMode === "end",
+            `Invalid TWILIO_VIDEO_MIGRATION_MODE: ${migrationMode}`);
+        config.TWILIO_VIDEO_MIGRATION_MODE = migrationMode;
+        if (migrationMode === "scheduled") {
+            assert(process.env.TWILIO_VIDEO_MIGRATION_TIME, "TWILIO_VIDEO_MIGRATION_TIME not provided.");
+            const migrationTime = new Date(process.env.TWILIO_VIDEO_MIGRATION_TIME);
+            assert(!isNaN(migrationTime.getTime()), `Invalid TWILIO_VIDEO_MIGRATION_TIME: ${process.env.TWILIO_VIDEO_MIGRATION_TIME}`);
+            config.TWILIO_VIDEO_MIGRATION_TIME = migrationTime;
+        }
     }
     assert(process.env.TWILIO_VIDEO_WEBHOOK_URL);
     config.TWILIO_VIDEO_WEBHOOK_URL = process.env.TWILIO_VIDEO_WEBHOOK_URL;
-    console.log(`${confId}:TWILIO_VIDEO_WEBHOOK_URL = ${config.TWILIO_VIDEO_WEBHOOK_URL}`);
+    // Defaults to the composition route alongside the video event route
+    config.TWILIO_VIDEO_COMPOSITION_WEBHOOK_URL
+        = process.env.TWILIO_VIDEO_COMPOSITION_WEBHOOK_URL
+        || config.TWILIO_VIDEO_WEBHOOK_URL.replace(/\/event$/, "/composition");
 
     // Save the config for future
     conferenceConfigCache.set(confId, config);
 
     return config;
 }
+
+/**
+ * Forgets the conference's cached config, so the next `getConfig` reads it
+ * from the database again.
+ */
+export function invalidateConfig(confId: string) {
+    conferenceConfigCache.delete(confId);
+}
+
+/**
+ * Sets one of the conference's database configuration values, creating the
+ * row if there isn't one. Secrets are encrypted if an encryption key is
+ * configured.
+ */
+export async function setConfigValue(conf: ConferenceT, key: keyof ClowdrConfig, value: string) {
+    const q = new Parse.Query(ConferenceConfig);
+    q.equalTo("conference", conf);
+    q.equalTo("key", key);
+    let row = await q.first({ useMasterKey: true });
+    if (!row) {
+        row = new ConferenceConfig();
+        row.set("conference", conf);
+        row.set("key", key);
+        // Master key only
+        row.setACL(new Parse.ACL());
+    }
+
+    const encryptionKey = getConfigEncryptionKey();
+    row.set("value", isSecretConfigKey(key) && encryptionKey ? encryptConfigValue(value, encryptionKey) : value);
+    await row.save(null, { useMasterKey: true });
+    invalidateConfig(conf.id);
+}
+
+/**
+ * Encrypts (with CLOWDR_CONFIG_ENCRYPTION_KEY) the secret configuration values
+ * still stored as plaintext, or re-wraps those encrypted with any of
+ * CLOWDR_CONFIG_ENCRYPTION_PREVIOUS_KEYS with it. Values already done are
+ * left alone, so this is safe to run again. Without a conference id, every
+ * conference's values are processed.
+ */
+export async function encryptSecretConfigValues(
+    command: "encrypt" | "rotate",
+    confId?: string
+): Promise<{ updated: number, skipped: number }> {
+    const masterKey = getConfigEncryptionKey();
+    assert(masterKey, "CLOWDR_CONFIG_ENCRYPTION_KEY not provided.");
+    const decryptionKeys = getConfigDecryptionKeys();
+
+    const q = new Parse.Query(ConferenceConfig);
+    q.containedIn("key", SECRET_CONFIG_KEYS);
+    if (confId) {
+        q.equalTo("conference", new Parse.Object("Conference", { id: confId }) as any);
+    }
+
+    let updated = 0;
+    let skipped = 0;
+    await q.each(async row => {
+        const value = row.get("value");
+        const label = `${row.get("conference").id}:${row.get("key")}`;
+        if (typeof value !== "string" || !value) {
+            skipped++;
+            return;
+        }
+
+        let newValue: string;
+        if (command === "encrypt") {
+            if (isEncryptedConfigValue(value)) {
+                skipped++;
+                return;
+            }
+            newValue = encryptConfigValue(value, masterKey);
+        }
+        else {
+            if (!isEncryptedConfigValue(value)) {
+                console.warn(`${label} is not encrypted - run encrypt first.`);
+                skipped++;
+                return;
+            }
+            newValue = rewrapConfigValue(value, decryptionKeys, masterKey);
+            if (newValue === value) {
+                skipped++;
+                return;
+            }
+        }
+
+        row.set("value", newValue);
+        await row.save(null, { useMasterKey: true });
+        invalidateConfig(row.get("conference").id);
+        console.log(`${command === "encrypt" ? "Encrypted" : "Re-wrapped"} ${label}`);
+        updated++;
+    }, { useMasterKey: true });
+
+    return { updated, skipped };
+}
+
+/**
+ * Finds the conferences whose database configuration has `key` set to
+ * `value`. Used to work out which conference an incoming Twilio webhook
+ * belongs to (e.g. by chat service SID or account SID).
+ */
+export async function getConferenceIdsByConfigValue(key: keyof ClowdrConfig, value: string): Promise<Array<string>> {
+    const q = new Parse.Query(ConferenceConfig);
+    q.equalTo("key", key);
+    q.equalTo("value", value);
+    const res = await q.find({ useMasterKey: true });
+    return res.map(x => x.get("conference").id);
+}
+
+// Twilio refuses access tokens that live longer than 24 hours
+const MIN_TOKEN_TTL_SECONDS = 60 * 5;
+const MAX_TOKEN_TTL_SECONDS = 3600 * 24;
+const DEFAULT_TOKEN_TTL_SECONDS = {
+    chat: 3600 * 3,
+    video: 3600 * 4
+};
+
+/**
+ * The time-to-live for chat or video access tokens, taken from the
+ * conference configuration (`TWILIO_CHAT_TOKEN_TTL` / `TWILIO_VIDEO_TOKEN_TTL`).
+ */
+export function getTokenTTL(config: ClowdrConfig, kind: "chat" | "video"): number {
+    const key = kind === "chat" ? "TWILIO_CHAT_TOKEN_TTL" : "TWILIO_VIDEO_TOKEN_TTL";
+    const value = config[key];
+    if (!value) {
+        return DEFAULT_TOKEN_TTL_SECONDS[kind];
+    }
+
+    const ttl = parseInt(value, 10);
+    if (isNaN(ttl)) {
+        console.warn(`Invalid ${key} (${value}) - using default.`);
+        return DEFAULT_TOKEN_TTL_SECONDS[kind];
+    }
+    if (ttl < MIN_TOKEN_TTL_SECONDS || ttl > MAX_TOKEN_TTL_SECONDS) {
+        console.warn(`${key} (${value}) out of range [${MIN_TOKEN_TTL_SECONDS}, ${MAX_TOKEN_TTL_SECONDS}] - clamping.`);
+        return Math.min(Math.max(ttl, MIN_TOKEN_TTL_SECONDS), MAX_TOKEN_TTL_SECONDS);
+    }
+    return ttl;
+}
@@ -0,0 +1,139 @@
+import assert from "assert";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// Secret config values (Twilio credentials) are stored envelope-encrypted in
+// ConferenceConfiguration: each value is encrypted with its own random data
+// key, and the data key is encrypted ("wrapped") with the master key from
+// `CLOWDR_CONFIG_ENCRYPTION_KEY`. Rotating the master key only re-wraps the
+// data keys. Encrypted values look like
+//
+//   enc:v1:<master key id>:<wrapped data key>:<encrypted value>
+//
+// where both blobs are base64 of IV | auth tag | AES-256-GCM ciphertext.
+//
+// Keys are 32 random bytes, base64 encoded. During a rotation, the old keys go
+// in `CLOWDR_CONFIG_ENCRYPTION_PREVIOUS_KEYS` (comma separated) so values not
+// yet re-wrapped can still be read.
+
+export const SECRET_CONFIG_KEYS = ["TWILIO_AUTH_TOKEN", "TWILIO_API_SECRET"];
+
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export type ConfigEncryptionKey = {
+    id: string;
+    key: Buffer;
+};
+
+export function isSecretConfigKey(key: string): boolean {
+    return SECRET_CONFIG_KEYS.includes(key);
+}
+
+export function isEncryptedConfigValue(value: string): boolean {
+    return value.startsWith(PREFIX);
+}
+
+export function generateConfigEncryptionKey(): string {
+    return randomBytes(KEY_BYTES).toString("base64");
+}
+
+function parseKey(encoded: string, name: string): ConfigEncryptionKey {
+    const key = Buffer.from(encoded.trim(), "base64");
+    assert(key.length === KEY_BYTES, `${name} must be ${KEY_BYTES} bytes, base64 encoded.`);
+    return {
+        id: createHash("sha256").update(key).digest("hex").substr(0, 16),
+        key
+    };
+}
+
+/**
+ * The master key new values are encrypted with, if one is configured.
+ */
+export function getConfigEncryptionKey(): ConfigEncryptionKey | undefined {
+    const encoded = process.env.CLOWDR_CONFIG_ENCRYPTION_KEY;
+    return encoded ? parseKey(encoded, "CLOWDR_CONFIG_ENCRYPTION_KEY") : undefined;
+}
+
+/**
+ * Every master key values may be encrypted with - the current one first.
+ */
+export function getConfigDecryptionKeys(): Array<ConfigEncryptionKey> {
+    const current = getConfigEncryptionKey();
+    const previous = (process.env.CLOWDR_CONFIG_ENCRYPTION_PREVIOUS_KEYS ?? "")
+        .split(",")
+        .filter(x => x.trim())
+        .map(x => parseKey(x, "CLOWDR_CONFIG_ENCRYPTION_PREVIOUS_KEYS"));
+    return current ? [current, ...previous] : previous;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+    const data = Buffer.from(sealed, "base64");
+    const decipher = createDecipheriv(ALGORITHM, key, data.slice(0, IV_BYTES));
+    decipher.setAuthTag(data.slice(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(data.slice(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+type EncryptedConfigValue = {
+    keyId: string;
+    wrappedDataKey: string;
+    ciphertext: string;
+};
+
+function parseEncryptedValue(value: string): EncryptedConfigValue {
+    const [keyId, wrappedDataKey, ciphertext] = value.substr(PREFIX.length).split(":");
+    assert(keyId && wrappedDataKey && ciphertext, "Malformed encrypted config value.");
+    return { keyId, wrappedDataKey, ciphertext };
+}
+
+function findKey(keyId: string, keys: Array<ConfigEncryptionKey>): ConfigEncryptionKey {
+    const key = keys.find(x => x.id === keyId);
+    if (!key) {
+        throw new Error(`Config value is encrypted with an unknown key (${keyId}) - check CLOWDR_CONFIG_ENCRYPTION_KEY and CLOWDR_CONFIG_ENCRYPTION_PREVIOUS_KEYS.`);
+    }
+    return key;
+}
+
+export function encryptConfigValue(value: string, masterKey: ConfigEncryptionKey): string {
+    const dataKey = randomBytes(KEY_BYTES);
+    return PREFIX + [
+        masterKey.id,
+        seal(masterKey.key, dataKey),
+        seal(dataKey, Buffer.from(value, "utf-8"))
+    ].join(":");
+}
+
+export function decryptConfigValue(value: string, keys: Array<ConfigEncryptionKey>): string {
+    const encrypted = parseEncryptedValue(value);
+    const masterKey = findKey(encrypted.keyId, keys);
+    const dataKey = open(masterKey.key, encrypted.wrappedDataKey);
+    return open(dataKey, encrypted.ciphertext).toString("utf-8");
+}
+
+/**
+ * Re-wraps the value's data key with `newMasterKey`. The value itself is not
+ * re-encrypted.
+ */
+export function rewrapConfigValue(value: string, keys: Array<ConfigEncryptionKey>, newMasterKey: ConfigEncryptionKey): string {
+    const encrypted = parseEncryptedValue(value);
+    if (encrypted.keyId === newMasterKey.id) {
+        return value;
+    }
+
+    const masterKey = findKey(encrypted.keyId, keys);
+    const dataKey = open(masterKey.key, encrypted.wrappedDataKey);
+    return PREFIX + [
+        newMasterKey.id,
+        seal(newMasterKey.key, dataKey),
+        encrypted.ciphertext
+    ].join(":");
+}
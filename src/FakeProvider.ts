@@ -0,0 +1,832 @@
+import { randomBytes } from "crypto";
+import { EventEmitter } from "events";
+import {
+    AccountInstance,
+    AccountList,
+    AccountStatus,
+    ApiKeyInstance,
+    ApiKeyList,
+    ChatChannelContext,
+    ChatChannelInstance,
+    ChatChannelList,
+    ChatChannelType,
+    ChatMemberInstance,
+    ChatMemberList,
+    ChatMessageInstance,
+    ChatMessageList,
+    ChatRoleInstance,
+    ChatRoleType,
+    ChatServiceContext,
+    ChatServiceInstance,
+    ChatServiceList,
+    ChatServiceUpdateOptions,
+    ChatUserChannelInstance,
+    ChatUserInstance,
+    ChatUserList,
+    ChatWebhookConfiguration,
+    ChatWebhookInstance,
+    Provider,
+    VideoCompositionInstance,
+    VideoCompositionList,
+    VideoCompositionStatus,
+    VideoParticipantContext,
+    VideoParticipantInstance,
+    VideoParticipantList,
+    VideoParticipantStatus,
+    VideoRecordingRule,
+    VideoRoomContext,
+    VideoRoomInstance,
+    VideoRoomList,
+    VideoRoomStatus,
+    VideoRoomType,
+    VideoSubscribeRule
+} from "./Provider";
+import { TwilioChatWebhookBody } from "./Twilio";
+
+// An in-memory stand-in for Twilio, so the backend can run (and be exercised)
+// without network access or a Twilio account. State lives only as long as the
+// process. Chat services are created on first use, so any service SID in the
+// conference's configuration works. Subaccounts are only records: getProvider
+// gives each (pretend) account its own fake.
+//
+// Where Twilio would call one of our webhooks, the fake emits an event on
+// `events` instead ("chat", "video" or "composition", with a Twilio-style
+// webhook body and the URL Twilio would post it to) so a harness can decide
+// whether and how to deliver it. Only configured webhooks fire: the service's
+// post-event webhook for the events in its filters, channel webhooks for the
+// events in theirs, and status callbacks given when creating a room or
+// composition. As with Twilio (without X-Twilio-Webhook-Enabled), REST calls
+// don't trigger the service's webhook - use `connectChatUser`/
+// `joinChatChannel` to simulate a client joining.
+
+// Errors carry an HTTP status, as Twilio's REST errors do
+function providerError(status: number, message: string): Error & { status: number } {
+    return Object.assign(new Error(message), { status });
+}
+
+function newSid(prefix: string): string {
+    return prefix + randomBytes(16).toString("hex");
+}
+
+function notFound(what: string, id: string): never {
+    throw providerError(404, `The requested resource ${what}/${id} was not found`);
+}
+
+function assignDefined<T>(target: T, source: Partial<T>) {
+    for (const key of Object.keys(source) as Array<keyof T>) {
+        const value = source[key];
+        if (value !== undefined) {
+            target[key] = value as T[keyof T];
+        }
+    }
+}
+
+type FakeRole = { sid: string, friendlyName: string, type: ChatRoleType, permissions: Array<string> };
+type FakeUser = { sid: string, identity: string, roleSid: string };
+type FakeMember = { sid: string, identity: string, roleSid: string };
+type FakeMessage = {
+    sid: string, index: number, from: string, body: string, attributes: string, dateCreated: Date
+};
+type FakeWebhook = { sid: string, type: string, configuration: ChatWebhookConfiguration };
+type FakeChannel = {
+    sid: string,
+    friendlyName: string,
+    uniqueName: string,
+    type: ChatChannelType,
+    attributes: string,
+    createdBy: string,
+    members: Map<string, FakeMember>,
+    messages: Array<FakeMessage>,
+    nextMessageIndex: number,
+    webhooks: Array<FakeWebhook>
+};
+type FakeService = {
+    settings: ChatServiceInstance,
+    roles: Array<FakeRole>,
+    users: Map<string, FakeUser>,
+    channels: Map<string, FakeChannel>
+};
+type FakeParticipant = {
+    sid: string,
+    identity: string,
+    status: VideoParticipantStatus,
+    subscribeRules: Array<VideoSubscribeRule>
+};
+type FakeRoom = {
+    sid: string,
+    uniqueName: string,
+    type: VideoRoomType,
+    status: VideoRoomStatus,
+    statusCallback: string,
+    maxParticipants: number,
+    participants: Array<FakeParticipant>,
+    recordingRules: Array<VideoRecordingRule>,
+    // Whether anything has been recorded (approximately: whether recording
+    // was ever switched on while someone was connected)
+    hasRecordings: boolean
+};
+type FakeComposition = {
+    sid: string,
+    roomSid: string,
+    status: VideoCompositionStatus,
+    format: string,
+    statusCallback: string
+};
+
+export class FakeProvider implements Provider {
+    readonly events = new EventEmitter();
+
+    constructor(private accountSID: string) {
+    }
+
+    private accountRecords = new Map<string, AccountInstance>();
+    private keyRecords: Array<ApiKeyInstance> = [];
+    private services = new Map<string, FakeService>();
+    private rooms = new Map<string, FakeRoom>();
+    private compositions = new Map<string, FakeComposition>();
+
+    accounts = this.accountList();
+
+    keys = this.keyList();
+
+    chat = {
+        services: this.serviceList()
+    };
+
+    video = {
+        rooms: this.roomList(),
+        compositions: this.compositionList()
+    };
+
+    /**
+     * Simulates a client joining a video room (which Twilio would only allow
+     * with a valid access token).
+     */
+    connectParticipant(roomSidOrUniqueName: string, identity: string): VideoParticipantInstance {
+        const room = this.getRoom(roomSidOrUniqueName);
+        if (room.status !== "in-progress") {
+            throw providerError(400, `Room ${room.sid} is ${room.status}`);
+        }
+        const connected = room.participants.filter(x => x.status === "connected");
+        if (connected.some(x => x.identity === identity)) {
+            throw providerError(409, `${identity} is already connected to ${room.sid}`);
+        }
+        if (connected.length >= room.maxParticipants) {
+            throw providerError(400, `Room ${room.sid} is full`);
+        }
+
+        const participant: FakeParticipant = {
+            sid: newSid("PA"),
+            identity,
+            status: "connected",
+            subscribeRules: [{ type: "include", all: true }]
+        };
+        room.participants.push(participant);
+        this.updateHasRecordings(room);
+        this.emitVideoEvent(room, "participant-connected", participant);
+        return this.participantInstance(room, participant);
+    }
+
+    /** Simulates a client leaving a video room. */
+    disconnectParticipant(roomSidOrUniqueName: string, identity: string) {
+        const room = this.getRoom(roomSidOrUniqueName);
+        const participant = room.participants.find(x => x.identity === identity && x.status === "connected");
+        if (participant) {
+            this.disconnect(room, participant);
+        }
+    }
+
+    /**
+     * Simulates a client connecting to chat, which creates their chat user if
+     * they don't have one yet.
+     */
+    connectChatUser(serviceSid: string, identity: string): ChatUserInstance {
+        const service = this.getService(serviceSid);
+        const existing = service.users.get(identity);
+        if (existing) {
+            return { ...existing };
+        }
+
+        const user = this.addUser(service, identity);
+        this.emitServiceEvent(service, "onUserAdded", { Identity: identity, RoleSid: user.roleSid });
+        return { ...user };
+    }
+
+    /** Simulates a client joining a chat channel. */
+    joinChatChannel(serviceSid: string, channelSidOrUniqueName: string, identity: string): ChatMemberInstance {
+        const service = this.getService(serviceSid);
+        const channel = this.getChannel(service, channelSidOrUniqueName);
+        this.connectChatUser(serviceSid, identity);
+
+        const member = this.addMember(channel, identity, service.settings.defaultChannelRoleSid);
+        this.emitServiceEvent(service, "onMemberAdded", {
+            ChannelSid: channel.sid,
+            Identity: member.identity,
+            RoleSid: member.roleSid
+        });
+        return { ...member };
+    }
+
+    private chatEventBody(service: FakeService, eventType: string, body: TwilioChatWebhookBody): TwilioChatWebhookBody {
+        return {
+            EventType: eventType,
+            AccountSid: this.accountSID,
+            InstanceSid: service.settings.sid,
+            ...body
+        };
+    }
+
+    private emitServiceEvent(service: FakeService, eventType: string, body: TwilioChatWebhookBody) {
+        const { postWebhookUrl, webhookFilters } = service.settings;
+        if (postWebhookUrl && webhookFilters.includes(eventType)) {
+            this.events.emit("chat", this.chatEventBody(service, eventType, body), postWebhookUrl);
+        }
+    }
+
+    private emitChannelEvent(service: FakeService, channel: FakeChannel, eventType: string, body: TwilioChatWebhookBody) {
+        for (const webhook of channel.webhooks) {
+            if (webhook.configuration.url && webhook.configuration.filters?.includes(eventType)) {
+                this.events.emit("chat", this.chatEventBody(service, eventType, {
+                    ChannelSid: channel.sid,
+                    ...body
+                }), webhook.configuration.url);
+            }
+        }
+    }
+
+    private emitVideoEvent(room: FakeRoom, event: string, participant?: FakeParticipant) {
+        if (!room.statusCallback) {
+            return;
+        }
+        this.events.emit("video", {
+            StatusCallbackEvent: event,
+            AccountSid: this.accountSID,
+            RoomSid: room.sid,
+            RoomName: room.uniqueName,
+            RoomStatus: room.status,
+            ParticipantSid: participant?.sid,
+            ParticipantIdentity: participant?.identity,
+            ParticipantStatus: participant?.status,
+            Timestamp: new Date().toISOString()
+        }, room.statusCallback);
+    }
+
+    private emitCompositionEvent(composition: FakeComposition, event: string) {
+        if (!composition.statusCallback) {
+            return;
+        }
+        this.events.emit("composition", {
+            StatusCallbackEvent: event,
+            AccountSid: this.accountSID,
+            CompositionSid: composition.sid,
+            RoomSid: composition.roomSid,
+            Format: composition.format,
+            MediaUri: composition.status === "completed" ? `/v1/Compositions/${composition.sid}/Media` : undefined
+        }, composition.statusCallback);
+    }
+
+    /*************
+     * Accounts *
+     *************/
+
+    private accountList(): AccountList {
+        return {
+            list: async (opts?: { friendlyName?: string, status?: AccountStatus }) =>
+                Array.from(this.accountRecords.values())
+                    .filter(x => !opts?.friendlyName || x.friendlyName === opts.friendlyName)
+                    .filter(x => !opts?.status || x.status === opts.status)
+                    .map(x => ({ ...x })),
+            create: async (opts: { friendlyName: string }) => {
+                const account: AccountInstance = {
+                    sid: newSid("AC"),
+                    friendlyName: opts.friendlyName,
+                    authToken: randomBytes(16).toString("hex"),
+                    status: "active"
+                };
+                this.accountRecords.set(account.sid, account);
+                return { ...account };
+            }
+        };
+    }
+
+    private keyList(): ApiKeyList {
+        return {
+            list: async () => this.keyRecords.map(x => ({ ...x })),
+            create: async (opts: { friendlyName: string }) => {
+                const key: ApiKeyInstance = { sid: newSid("SK"), friendlyName: opts.friendlyName };
+                this.keyRecords.push(key);
+                return { ...key, secret: randomBytes(16).toString("hex") };
+            }
+        };
+    }
+
+    /*********
+     * Chat *
+     *********/
+
+    private serviceList(): ChatServiceList {
+        return Object.assign((sid: string) => this.serviceContext(sid), {
+            list: async () => Array.from(this.services.values()).map(x => ({ ...x.settings })),
+            create: async (opts: { friendlyName: string }) => {
+                const service = this.getService(newSid("IS"));
+                service.settings.friendlyName = opts.friendlyName;
+                return { ...service.settings };
+            }
+        });
+    }
+
+    private getService(sid: string): FakeService {
+        let service = this.services.get(sid);
+        if (!service) {
+            service = {
+                settings: {
+                    sid,
+                    friendlyName: sid,
+                    reachabilityEnabled: false,
+                    readStatusEnabled: false,
+                    preWebhookUrl: "",
+                    postWebhookUrl: "",
+                    webhookMethod: "POST",
+                    webhookFilters: [],
+                    defaultServiceRoleSid: "",
+                    defaultChannelRoleSid: "",
+                    defaultChannelCreatorRoleSid: ""
+                },
+                roles: [],
+                users: new Map(),
+                channels: new Map()
+            };
+            this.services.set(sid, service);
+        }
+        return service;
+    }
+
+    private serviceContext(sid: string): ChatServiceContext {
+        const service = this.getService(sid);
+        return {
+            fetch: async () => ({ ...service.settings }),
+            update: async (opts: ChatServiceUpdateOptions) => {
+                assignDefined(service.settings, opts);
+                return { ...service.settings };
+            },
+            roles: {
+                list: async () => service.roles.map(x => this.roleInstance(x)),
+                create: async (opts) => {
+                    if (service.roles.some(x => x.friendlyName === opts.friendlyName)) {
+                        throw providerError(409, `Role ${opts.friendlyName} already exists`);
+                    }
+                    const role: FakeRole = {
+                        sid: newSid("RL"),
+                        friendlyName: opts.friendlyName,
+                        type: opts.type,
+                        permissions: [...opts.permission]
+                    };
+                    service.roles.push(role);
+                    return this.roleInstance(role);
+                }
+            },
+            users: this.userList(service),
+            channels: this.channelList(service)
+        };
+    }
+
+    private roleInstance(role: FakeRole): ChatRoleInstance {
+        return {
+            ...role,
+            permissions: [...role.permissions],
+            update: async (opts) => {
+                role.permissions = [...opts.permission];
+                return this.roleInstance(role);
+            }
+        };
+    }
+
+    private userList(service: FakeService): ChatUserList {
+        const getUser = (identity: string) => service.users.get(identity) ?? notFound("Users", identity);
+        const context = (identity: string) => ({
+            fetch: async () => ({ ...getUser(identity) }),
+            update: async (opts: { roleSid?: string }) => {
+                const user = getUser(identity);
+                user.roleSid = opts.roleSid ?? user.roleSid;
+                return { ...user };
+            },
+            remove: async () => {
+                getUser(identity);
+                service.users.delete(identity);
+                for (const channel of service.channels.values()) {
+                    channel.members.delete(identity);
+                }
+                return true;
+            },
+            userChannels: {
+                list: async () => {
+                    getUser(identity);
+                    const result: Array<ChatUserChannelInstance> = [];
+                    for (const channel of service.channels.values()) {
+                        const member = channel.members.get(identity);
+                        if (member) {
+                            result.push({ channelSid: channel.sid, memberSid: member.sid, status: "joined" });
+                        }
+                    }
+                    return result;
+                }
+            }
+        });
+        return Object.assign(context, {
+            create: async (opts: { identity: string, roleSid?: string }): Promise<ChatUserInstance> => {
+                if (service.users.has(opts.identity)) {
+                    throw providerError(409, `User ${opts.identity} already exists`);
+                }
+                const user = this.addUser(service, opts.identity, opts.roleSid);
+                return { ...user };
+            }
+        });
+    }
+
+    private addUser(service: FakeService, identity: string, roleSid?: string): FakeUser {
+        const user: FakeUser = {
+            sid: newSid("US"),
+            identity,
+            roleSid: roleSid ?? service.settings.defaultServiceRoleSid
+        };
+        service.users.set(identity, user);
+        return user;
+    }
+
+    private addMember(channel: FakeChannel, identity: string, roleSid: string): FakeMember {
+        if (channel.members.has(identity)) {
+            throw providerError(409, `Member ${identity} already exists`);
+        }
+        const member: FakeMember = { sid: newSid("MB"), identity, roleSid };
+        channel.members.set(identity, member);
+        return member;
+    }
+
+    private getChannel(service: FakeService, sidOrUniqueName: string): FakeChannel {
+        const channel
+            = service.channels.get(sidOrUniqueName)
+            ?? Array.from(service.channels.values()).find(x => x.uniqueName && x.uniqueName === sidOrUniqueName);
+        return channel ?? notFound("Channels", sidOrUniqueName);
+    }
+
+    private channelInstance(service: FakeService, channel: FakeChannel): ChatChannelInstance {
+        return {
+            sid: channel.sid,
+            friendlyName: channel.friendlyName,
+            type: channel.type,
+            attributes: channel.attributes,
+            createdBy: channel.createdBy,
+            membersCount: channel.members.size,
+            remove: async () => this.removeChannel(service, channel.sid)
+        };
+    }
+
+    private removeChannel(service: FakeService, sid: string): boolean {
+        const channel = this.getChannel(service, sid);
+        service.channels.delete(channel.sid);
+        this.emitChannelEvent(service, channel, "onChannelDestroyed", {});
+        return true;
+    }
+
+    private channelList(service: FakeService): ChatChannelList {
+        const context = (sid: string): ChatChannelContext => ({
+            fetch: async () => this.channelInstance(service, this.getChannel(service, sid)),
+            remove: async () => this.removeChannel(service, sid),
+            members: this.memberList(service, sid),
+            messages: this.messageList(service, sid),
+            webhooks: {
+                list: async () => this.getChannel(service, sid).webhooks.map(x => ({ ...x })),
+                create: async (opts): Promise<ChatWebhookInstance> => {
+                    const webhook: FakeWebhook = {
+                        sid: newSid("WH"),
+                        type: opts.type,
+                        configuration: { ...opts.configuration }
+                    };
+                    this.getChannel(service, sid).webhooks.push(webhook);
+                    return { ...webhook };
+                }
+            }
+        });
+        return Object.assign(context, {
+            list: async (opts?: { type?: ChatChannelType | Array<ChatChannelType> }) => {
+                const types = opts?.type ? ([] as Array<ChatChannelType>).concat(opts.type) : undefined;
+                return Array.from(service.channels.values())
+                    .filter(x => !types || types.includes(x.type))
+                    .map(x => this.channelInstance(service, x));
+            },
+            create: async (opts: {
+                friendlyName?: string,
+                uniqueName?: string,
+                type?: ChatChannelType,
+                createdBy?: string,
+                attributes?: string
+            }) => {
+                if (opts.uniqueName
+                    && Array.from(service.channels.values()).some(x => x.uniqueName === opts.uniqueName)) {
+                    throw providerError(409, `Channel ${opts.uniqueName} already exists`);
+                }
+                const channel: FakeChannel = {
+                    sid: newSid("CH"),
+                    friendlyName: opts.friendlyName ?? "",
+                    uniqueName: opts.uniqueName ?? "",
+                    type: opts.type ?? "public",
+                    attributes: opts.attributes ?? "{}",
+                    createdBy: opts.createdBy ?? "system",
+                    members: new Map(),
+                    messages: [],
+                    nextMessageIndex: 0,
+                    webhooks: []
+                };
+                service.channels.set(channel.sid, channel);
+                return this.channelInstance(service, channel);
+            }
+        });
+    }
+
+    private memberList(service: FakeService, channelSid: string): ChatMemberList {
+        const getMember = (identity: string) => {
+            const channel = this.getChannel(service, channelSid);
+            return channel.members.get(identity) ?? notFound("Members", identity);
+        };
+        const context = (identity: string) => ({
+            update: async (opts: { roleSid?: string }) => {
+                const member = getMember(identity);
+                member.roleSid = opts.roleSid ?? member.roleSid;
+                return { ...member };
+            },
+            remove: async () => {
+                getMember(identity);
+                this.getChannel(service, channelSid).members.delete(identity);
+                return true;
+            }
+        });
+        return Object.assign(context, {
+            list: async (opts?: { identity?: string | Array<string> }): Promise<Array<ChatMemberInstance>> => {
+                const identities = opts?.identity ? ([] as Array<string>).concat(opts.identity) : undefined;
+                return Array.from(this.getChannel(service, channelSid).members.values())
+                    .filter(x => !identities || identities.includes(x.identity))
+                    .map(x => ({ ...x }));
+            },
+            create: async (opts: { identity: string, roleSid?: string }): Promise<ChatMemberInstance> => {
+                const channel = this.getChannel(service, channelSid);
+                const member = this.addMember(channel, opts.identity, opts.roleSid ?? service.settings.defaultChannelRoleSid);
+                if (!service.users.has(opts.identity)) {
+                    this.addUser(service, opts.identity);
+                }
+                return { ...member };
+            }
+        });
+    }
+
+    private messageInstance(service: FakeService, channelSid: string, message: FakeMessage): ChatMessageInstance {
+        return {
+            ...message,
+            update: async (opts) => {
+                message.body = opts.body ?? message.body;
+                message.attributes = opts.attributes ?? message.attributes;
+                this.emitMessageEvent(service, channelSid, "onMessageUpdated", message);
+                return this.messageInstance(service, channelSid, message);
+            },
+            remove: async () => {
+                const channel = this.getChannel(service, channelSid);
+                channel.messages = channel.messages.filter(x => x !== message);
+                this.emitMessageEvent(service, channelSid, "onMessageRemoved", message);
+                return true;
+            }
+        };
+    }
+
+    private emitMessageEvent(service: FakeService, channelSid: string, eventType: string, message: FakeMessage) {
+        this.emitChannelEvent(service, this.getChannel(service, channelSid), eventType, {
+            MessageSid: message.sid,
+            Index: message.index.toString(),
+            From: message.from,
+            Body: message.body,
+            Attributes: message.attributes,
+            DateCreated: message.dateCreated.toISOString()
+        });
+    }
+
+    private messageList(service: FakeService, channelSid: string): ChatMessageList {
+        const context = (sid: string) => ({
+            fetch: async () => {
+                const channel = this.getChannel(service, channelSid);
+                const message = channel.messages.find(x => x.sid === sid) ?? notFound("Messages", sid);
+                return this.messageInstance(service, channelSid, message);
+            }
+        });
+        return Object.assign(context, {
+            create: async (opts: { body?: string, attributes?: string, from?: string }) => {
+                const channel = this.getChannel(service, channelSid);
+                const message: FakeMessage = {
+                    sid: newSid("IM"),
+                    index: channel.nextMessageIndex++,
+                    from: opts.from ?? "system",
+                    body: opts.body ?? "",
+                    attributes: opts.attributes ?? "{}",
+                    dateCreated: new Date()
+                };
+                channel.messages.push(message);
+                this.emitMessageEvent(service, channelSid, "onMessageSent", message);
+                return this.messageInstance(service, channelSid, message);
+            }
+        });
+    }
+
+    /**********
+     * Video *
+     **********/
+
+    private getRoom(sidOrUniqueName: string): FakeRoom {
+        const room
+            = this.rooms.get(sidOrUniqueName)
+            // Like Twilio, a unique name only identifies a room while it is in progress
+            ?? Array.from(this.rooms.values()).find(x =>
+                x.uniqueName === sidOrUniqueName && x.status === "in-progress");
+        return room ?? notFound("Rooms", sidOrUniqueName);
+    }
+
+    private roomInstance(room: FakeRoom): VideoRoomInstance {
+        return {
+            sid: room.sid,
+            uniqueName: room.uniqueName,
+            type: room.type,
+            status: room.status,
+            statusCallback: room.statusCallback,
+            maxParticipants: room.maxParticipants,
+            update: async (opts) => this.endRoom(room, opts.status)
+        };
+    }
+
+    private participantInstance(room: FakeRoom, participant: FakeParticipant): VideoParticipantInstance {
+        return {
+            sid: participant.sid,
+            identity: participant.identity,
+            status: participant.status,
+            update: async () => {
+                this.disconnect(room, participant);
+                return this.participantInstance(room, participant);
+            }
+        };
+    }
+
+    private disconnect(room: FakeRoom, participant: FakeParticipant) {
+        if (participant.status === "connected") {
+            participant.status = "disconnected";
+            this.emitVideoEvent(room, "participant-disconnected", participant);
+        }
+    }
+
+    private endRoom(room: FakeRoom, status: "completed"): VideoRoomInstance {
+        if (room.status === "in-progress") {
+            for (const participant of room.participants) {
+                this.disconnect(room, participant);
+            }
+            room.status = status;
+            this.emitVideoEvent(room, "room-ended");
+        }
+        return this.roomInstance(room);
+    }
+
+    private updateHasRecordings(room: FakeRoom) {
+        if (room.recordingRules.some(x => x.type === "include")
+            && room.participants.some(x => x.status === "connected")) {
+            room.hasRecordings = true;
+        }
+    }
+
+    private participantList(roomSidOrUniqueName: string): VideoParticipantList {
+        // Like Twilio, a connected participant can also be addressed by identity
+        const getParticipant = (room: FakeRoom, sidOrIdentity: string) =>
+            room.participants.find(x => x.sid === sidOrIdentity)
+            ?? room.participants.find(x => x.identity === sidOrIdentity && x.status === "connected")
+            ?? notFound("Participants", sidOrIdentity);
+        const context = (sidOrIdentity: string): VideoParticipantContext => ({
+            update: async () => {
+                const room = this.getRoom(roomSidOrUniqueName);
+                const participant = getParticipant(room, sidOrIdentity);
+                this.disconnect(room, participant);
+                return this.participantInstance(room, participant);
+            },
+            subscribeRules: {
+                update: async (opts) => {
+                    const participant = getParticipant(this.getRoom(roomSidOrUniqueName), sidOrIdentity);
+                    participant.subscribeRules = opts.rules.map(x => ({ ...x }));
+                    return { rules: participant.subscribeRules.map(x => ({ ...x })) };
+                }
+            }
+        });
+        return Object.assign(context, {
+            list: async (opts?: { identity?: string, status?: VideoParticipantStatus }) => {
+                const room = this.getRoom(roomSidOrUniqueName);
+                return room.participants
+                    .filter(x => (!opts?.identity || x.identity === opts.identity)
+                        && (!opts?.status || x.status === opts.status))
+                    .map(x => this.participantInstance(room, x));
+            }
+        });
+    }
+
+    private roomList(): VideoRoomList {
+        const context = (sidOrUniqueName: string): VideoRoomContext => ({
+            fetch: async () => this.roomInstance(this.getRoom(sidOrUniqueName)),
+            update: async (opts) => this.endRoom(this.getRoom(sidOrUniqueName), opts.status),
+            participants: this.participantList(sidOrUniqueName),
+            recordingRules: {
+                update: async (opts) => {
+                    const room = this.getRoom(sidOrUniqueName);
+                    if (room.type === "peer-to-peer") {
+                        throw providerError(400, `Room ${room.sid} can't be recorded`);
+                    }
+                    room.recordingRules = opts.rules.map(x => ({ ...x }));
+                    this.updateHasRecordings(room);
+                    return { rules: room.recordingRules.map(x => ({ ...x })) };
+                }
+            }
+        });
+        return Object.assign(context, {
+            list: async (opts?: { status?: VideoRoomStatus, uniqueName?: string }) =>
+                Array.from(this.rooms.values())
+                    .filter(x => (!opts?.status || x.status === opts.status)
+                        && (!opts?.uniqueName || x.uniqueName === opts.uniqueName))
+                    .map(x => this.roomInstance(x)),
+            create: async (opts: {
+                type?: VideoRoomType,
+                uniqueName?: string,
+                maxParticipants?: number,
+                statusCallback?: string,
+                recordParticipantsOnConnect?: boolean
+            }) => {
+                const type = opts.type ?? "group";
+                if (opts.recordParticipantsOnConnect && type === "peer-to-peer") {
+                    throw providerError(400, "Peer-to-peer rooms can't be recorded");
+                }
+                const room: FakeRoom = {
+                    sid: newSid("RM"),
+                    uniqueName: "",
+                    type,
+                    status: "in-progress",
+                    statusCallback: opts.statusCallback ?? "",
+                    maxParticipants: opts.maxParticipants ?? 50,
+                    participants: [],
+                    recordingRules: opts.recordParticipantsOnConnect ? [{ type: "include", all: true }] : [],
+                    hasRecordings: false
+                };
+                room.uniqueName = opts.uniqueName ?? room.sid;
+                if (Array.from(this.rooms.values()).some(x =>
+                    x.uniqueName === room.uniqueName && x.status === "in-progress")) {
+                    throw providerError(400, `Room ${room.uniqueName} already exists`);
+                }
+                this.rooms.set(room.sid, room);
+                this.emitVideoEvent(room, "room-created");
+                return this.roomInstance(room);
+            }
+        });
+    }
+
+    private compositionInstance(composition: FakeComposition): VideoCompositionInstance {
+        return {
+            sid: composition.sid,
+            roomSid: composition.roomSid,
+            status: composition.status,
+            format: composition.format
+        };
+    }
+
+    /**
+     * Compositions finish straight away: "composition-enqueued" is emitted,
+     * then "composition-available" (or "composition-failed" if nothing in the
+     * room was recorded).
+     */
+    private compositionList(): VideoCompositionList {
+        return {
+            create: async (opts: { roomSid: string, format?: "mp4" | "webm", statusCallback?: string }) => {
+                const room = this.getRoom(opts.roomSid);
+                if (room.status === "in-progress") {
+                    throw providerError(400, `Room ${room.sid} is still in progress`);
+                }
+
+                const composition: FakeComposition = {
+                    sid: newSid("CJ"),
+                    roomSid: room.sid,
+                    status: "enqueued",
+                    format: opts.format ?? "webm",
+                    statusCallback: opts.statusCallback ?? ""
+                };
+                this.compositions.set(composition.sid, composition);
+                this.emitCompositionEvent(composition, "composition-enqueued");
+                const result = this.compositionInstance(composition);
+
+                if (room.hasRecordings) {
+                    composition.status = "completed";
+                    this.emitCompositionEvent(composition, "composition-available");
+                }
+                else {
+                    composition.status = "failed";
+                    this.emitCompositionEvent(composition, "composition-failed");
+                }
+                return result;
+            }
+        };
+    }
+}
@@ -1,167 +1,152 @@
 import Parse from "parse/node";
-import { ConferenceT } from "./SchemaTypes";
+import { getConfig } from "./Config";
+import { ConferenceT, TextChat, VideoRoom } from "./SchemaTypes";
+import { getProvider } from "./Twilio";
+import { processTwilioRoomEnded } from "./Video";
 
-// async function populateActiveChannels(conf: ConferenceT) {
-//     let roomQuery = new Parse.Query(VideoRoom);
-//     roomQuery.equalTo("conference", conf);
-//     let rooms = await roomQuery.find({ useMasterKey: true });
-//     return rooms;
-// }
+type ReconciliationReport = {
+    participantsUpdated: Array<{ room: string, before: Array<string>, after: Array<string> }>;
+    videoRoomIDsCleared: Array<{ room: string, twilioID: string }>;
+    videoRoomsDestroyed: Array<{ room: string, twilioID: string }>;
+    untrackedTwilioRooms: Array<string>;
+    textChatIDsCleared: Array<{ chat: string, twilioID: string }>;
+    errors: Array<string>;
+};
+
+function sameParticipants(a: Array<string>, b: Array<string>): boolean {
+    return a.length === b.length && a.every(x => b.includes(x));
+}
+
+function logReconciliationReport(conf: ConferenceT, report: ReconciliationReport) {
+    const name = conf.get("name");
+    const changes
+        = report.participantsUpdated.length
+        + report.videoRoomIDsCleared.length
+        + report.videoRoomsDestroyed.length
+        + report.textChatIDsCleared.length;
+    if (changes === 0 && report.untrackedTwilioRooms.length === 0 && report.errors.length === 0) {
+        console.log(`[Reconcile]: ${name}: Parse and Twilio state already agree.`);
+        return;
+    }
+
+    console.log(`[Reconcile]: ${name}: ${changes} change(s) made.`);
+    for (const x of report.participantsUpdated) {
+        console.log(`[Reconcile]:   VideoRoom ${x.room} participants [${x.before.join(", ")}] -> [${x.after.join(", ")}]`);
+    }
+    for (const x of report.videoRoomIDsCleared) {
+        console.log(`[Reconcile]:   VideoRoom ${x.room} twilioID ${x.twilioID} no longer live - cleared`);
+    }
+    for (const x of report.videoRoomsDestroyed) {
+        console.log(`[Reconcile]:   VideoRoom ${x.room} (ephemeral) twilioID ${x.twilioID} no longer live - destroyed`);
+    }
+    for (const x of report.untrackedTwilioRooms) {
+        console.log(`[Reconcile]:   Twilio room ${x} is not tracked by any VideoRoom`);
+    }
+    for (const x of report.textChatIDsCleared) {
+        console.log(`[Reconcile]:   TextChat ${x.chat} twilioID ${x.twilioID} no longer exists - cleared`);
+    }
+    for (const x of report.errors) {
+        console.warn(`[Reconcile]:   Error: ${x}`);
+    }
+}
+
+/**
+ * Brings the conference's VideoRoom and TextChat state in Parse back in line
+ * with what actually exists in Twilio. Rooms, participants and channels may
+ * have come and gone while the backend was offline.
+ */
+export async function reconcileConference(conf: ConferenceT): Promise<ReconciliationReport> {
+    const report: ReconciliationReport = {
+        participantsUpdated: [],
+        videoRoomIDsCleared: [],
+        videoRoomsDestroyed: [],
+        untrackedTwilioRooms: [],
+        textChatIDsCleared: [],
+        errors: []
+    };
+
+    const config = await getConfig(conf.id);
+    const provider = await getProvider(conf.id, config);
+
+    // Video rooms
+    const liveTwilioRooms = await provider.video.rooms.list({ status: "in-progress" });
+    const trackedTwilioRoomIDs = new Set<string>();
+
+    const videoRoomsQ = new Parse.Query(VideoRoom);
+    videoRoomsQ.equalTo("conference", conf);
+    await videoRoomsQ.each(async room => {
+        try {
+            const twilioID = room.get("twilioID");
+            const participants = room.get("participants") ?? [];
+            const liveTwilioRoom = twilioID ? liveTwilioRooms.find(x => x.sid === twilioID) : undefined;
+
+            if (twilioID && !liveTwilioRoom) {
+                // It ended while we weren't listening
+                const ephemeral = room.get("ephemeral");
+                await processTwilioRoomEnded(conf, config, twilioID, new Date(), room);
+                if (ephemeral) {
+                    report.videoRoomsDestroyed.push({ room: room.id, twilioID });
+                }
+                else {
+                    report.videoRoomIDsCleared.push({ room: room.id, twilioID });
+                }
+                return;
+            }
+
+            let liveParticipants: Array<string> = [];
+            if (liveTwilioRoom) {
+                trackedTwilioRoomIDs.add(liveTwilioRoom.sid);
+                const twilioParticipants = await provider.video.rooms(liveTwilioRoom.sid).participants.list({
+                    status: "connected"
+                });
+                liveParticipants = twilioParticipants.map(x => x.identity);
+            }
+
+            if (!sameParticipants(participants, liveParticipants)) {
+                await room.save({ participants: liveParticipants }, { useMasterKey: true });
+                report.participantsUpdated.push({ room: room.id, before: participants, after: liveParticipants });
+            }
+        }
+        catch (e) {
+            report.errors.push(`VideoRoom ${room.id}: ${e}`);
+        }
+    }, { useMasterKey: true });
+
+    report.untrackedTwilioRooms = liveTwilioRooms
+        .filter(x => !trackedTwilioRoomIDs.has(x.sid))
+        .map(x => `${x.sid} (${x.uniqueName})`);
+
+    // Text chats
+    const chatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+    const twilioChannels = await chatService.channels.list({ type: ["public", "private"] });
+    const twilioChannelIDs = new Set(twilioChannels.map(x => x.sid));
+
+    const textChatsQ = new Parse.Query(TextChat);
+    textChatsQ.equalTo("conference", conf);
+    await textChatsQ.each(async chat => {
+        try {
+            const twilioID = chat.get("twilioID");
+            if (twilioID && !twilioChannelIDs.has(twilioID)) {
+                await chat.save({ twilioID: "" }, { useMasterKey: true });
+                report.textChatIDsCleared.push({ chat: chat.id, twilioID });
+            }
+        }
+        catch (e) {
+            report.errors.push(`TextChat ${chat.id}: ${e}`);
+        }
+    }, { useMasterKey: true });
+
+    return report;
+}
 
-export async function initChatRooms(r: ConferenceT) {
-    // TODO: initChatRooms
-    // TODO: This function should verify what actually needs doing
-
-    // try {
-    //     r.rooms = await populateActiveChannels(r);
-    //     r.config = await getConfig(r);
-
-    //     try {
-    //         r.Twilio = Twilio(r.config.TWILIO_ACCOUNT_SID, r.config.TWILIO_AUTH_TOKEN);
-    //     } catch (err) {
-    //         console.log(`[initChatRooms]: failed to connect to Twilio with account ${r.config.TWILIO_ACCOUNT_SID} and auth token ${r.config.TWILIO_AUTH_TOKEN}. Check your credentials`);
-    //         return;
-    //     }
-
-    //     if (!r.config.TWILIO_CHAT_SERVICE_SID) {
-    //         let newChatService = await r.Twilio.chat.services.create({ friendlyName: 'clowdr_chat' });
-    //         await addOrReplaceConfig(r, "TWILIO_CHAT_SERVICE_SID", newChatService.sid);
-    //     }
-
-    //     let socialSpaceQ = new Parse.Query("SocialSpace");
-    //     socialSpaceQ.equalTo("conference", r);
-    //     socialSpaceQ.equalTo("name", "Lobby");
-    //     r.lobbySocialSpace = await socialSpaceQ.first({ useMasterKey: true });
-
-    //     //Make sure that there is a record of the instance for enrollments
-    //     let accessQ = new Parse.Query(ConferenceAccess);
-    //     accessQ.equalTo("conference", r);
-    //     let accessRecord = await accessQ.first({ useMasterKey: true });
-    //     if (!accessRecord) {
-    //         accessRecord = new ConferenceAccess();
-    //         let role = await getOrCreateRole(r.id, "conference");
-    //         let acl = new Parse.ACL();
-    //         try {
-    //             acl.setRoleReadAccess(r.id + "-conference", true);
-    //             accessRecord.set("conference", r);
-    //             accessRecord.setACL(acl);
-    //             await accessRecord.save({}, { useMasterKey: true });
-    //         } catch (err) {
-    //             console.log("on room " + r.id)
-    //             console.error(err);
-    //         }
-    //     }
-
-    //     //This is the first time we hit this conference on this run, so we should also grab the state of the world from Twilio
-
-    //     let roomsInTwilio = await r.Twilio.video.rooms.list();
-
-    //     let modRole = await getOrCreateRole(r.id, "moderator");
-
-    //     for (let room of roomsInTwilio) {
-    //         if (room.status === 'in-progress') {
-    //             if (r.rooms.filter((i) => i.get("twilioID") === room.sid).length === 0) {
-    //                 //make a new room with room.uniqueName
-    //                 let parseRoom = new BreakoutRoom();
-    //                 parseRoom.set("conference", r);
-    //                 parseRoom.set("twilioID", room.sid);
-    //                 parseRoom.set("title", room.uniqueName);
-    //                 parseRoom.set("persistence", "ephemeral");
-    //                 parseRoom = await parseRoom.save();
-    //                 let acl = new Parse.ACL();
-    //                 acl.setPublicReadAccess(false);
-    //                 acl.setPublicWriteAccess(false);
-    //                 acl.setRoleReadAccess(modRole, true);
-    //                 acl.setRoleReadAccess(await getOrCreateRole(r.id, "conference"), true);
-    //                 parseRoom.setACL(acl, { useMasterKey: true });
-    //                 await parseRoom.save({}, { useMasterKey: true });
-    //                 sidToRoom[room.sid] = parseRoom;
-    //                 r.rooms.push(parseRoom);
-    //             }
-    //         }
-    //     }
-
-    //     for (let parseRoom of r.rooms) {
-    //         try {
-    //             if (!parseRoom.get("twilioID") && parseRoom.get("persistence") !== "ephemeral")
-    //                 continue; //persistent room, not occupied.
-    //             let found = roomsInTwilio.filter((i) => i.status === 'in-progress' && i.sid === parseRoom.get("twilioID"));
-    //             if (found.length === 1 && found[0].status === 'in-progress') {
-    //                 sidToRoom[parseRoom.get("twilioID")] = parseRoom;
-    //                 //sync members
-    //                 let participants = await r.Twilio.video.rooms(parseRoom.get("twilioID")).participants.list();
-    //                 for (let participant of participants) {
-    //                     let uid = participant.identity;
-    //                     let userFindQ = new Parse.Query(UserProfile);
-    //                     try {
-    //                         let user = await userFindQ.get(uid, { useMasterKey: true });
-    //                         if (!parseRoom.get("members")) {
-    //                             parseRoom.set("members", [user]);
-    //                         } else {
-    //                             if (parseRoom.get("members").filter((u) => u.id === uid).length === 0)
-    //                                 parseRoom.get("members").push(user);
-    //                         }
-    //                     } catch (err) {
-    //                         console.log("Missing participant: " + uid)
-    //                         console.error(err);
-    //                     }
-    //                 }
-    //                 let membersToRemove = [];
-    //                 if (parseRoom.get("members")) {
-    //                     for (let member of parseRoom.get("members")) {
-    //                         let found = participants.filter((p) => {
-    //                             let uid = p.identity;
-    //                             return uid === member.id && p.status === "connected";
-    //                         });
-    //                         if (found.length === 0) {
-    //                             //remove that member
-    //                             membersToRemove.push(member.id);
-    //                         }
-    //                     }
-    //                     let newMembers = parseRoom.get("members").filter((member) => !membersToRemove.includes(member.id));
-    //                     parseRoom.set("members", newMembers);
-    //                 }
-    //                 await parseRoom.save({}, { useMasterKey: true });
-    //             } else {
-    //                 //room no logner exists
-    //                 try {
-    //                     if (parseRoom.get("persistence") === "persistent") {
-    //                         parseRoom.set("twilioID", null);
-    //                         await parseRoom.save({}, { useMasterKey: true });
-    //                     } else {
-    //                         if (parseRoom.get("twilioChatID")) {
-    //                             await r.Twilio.chat.services(r.config.TWILIO_CHAT_SERVICE_SID).channels(parseRoom.get("twilioChatID")).remove();
-    //                         }
-    //                         await parseRoom.destroy({ useMasterKey: true });
-    //                         r.rooms = r.rooms.filter((r) => r.id !== parseRoom.id);
-    //                     }
-    //                 } catch (err) {
-    //                     console.log("Unable to delete " + parseRoom.id)
-    //                     console.error(err);
-    //                 }
-    //             }
-    //         } catch (err) {
-    //             console.log("initialization error on " + parseRoom.id)
-    //             console.error(err);
-    //             console.log(err.stack)
-    //         }
-    //     }
-
-    //     let adminRole = await getParseAdminRole();
-    //     let adminsQ = adminRole.getUsers().query();
-    //     adminsQ.limit(1000);
-    //     let admins = await adminsQ.find({ useMasterKey: true });
-    //     let promises = [];
-    //     for (let admin of admins) {
-    //         promises.push(ensureUserHasTeamRole(admin, r, await getOrCreateRole(r.id, "conference")));
-    //     }
-
-    //     await Promise.all(promises).catch((err) => {
-    //         console.error(err);
-    //     });
-    // } catch (err) {
-    //     console.log('[getConference]: outter err: ' + err);
-    // }
+export async function initConference(r: ConferenceT) {
+    try {
+        const report = await reconcileConference(r);
+        logReconciliationReport(r, report);
+    }
+    catch (e) {
+        console.error(`[Reconcile]: Failed to reconcile ${r.get("name")} (${r.id}) with Twilio.`, e);
+    }
 }
 
 // const userToWorkspaces = {};
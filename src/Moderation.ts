@@ -1,40 +1,393 @@
 import Parse from "parse/node";
+import { Request, Response, NextFunction } from 'express';
+import { RoleNames } from "@clowdr-app/clowdr-db-schema/build/DataLayer/Schema/_Role";
 
-// async function getModeratorChannel(conf) {
-//     return conf.moderatorChannel;
-// }
-// async function sendModeratorMessage(req, res) {
-//     let identity = req.body.identity;
-//     const roomID = req.body.roomID;
-//     const conference = req.body.conference;
-//     const participants = req.body.participants;
-//     let conf = await getConference(conference);
-//     let userQ = new Parse.Query(Parse.Session);
-//     userQ.equalTo("sessionToken", identity);
-//     let parseSession = await userQ.first({ useMasterKey: true });
-//     let parseUser = parseSession.get("user");
-//     let profileQ = new Parse.Query(UserProfile);
-//     profileQ.equalTo("user", parseUser);
-//     profileQ.equalTo("conference", conf);
-//     let profile = await profileQ.first({ useMasterKey: true });
-//     //Check for roles...
-//     let roomQ = new Parse.Query("BreakoutRoom");
-//     let room = await roomQ.get(roomID, { sessionToken: identity });
-//     if (!room) {
-//         return res.send({ status: 'error', message: "No such room" });
-//     }
-//     let unfilledUsers = [];
-//     for (let id of participants) {
-//         unfilledUsers.push(UserProfile.createWithoutData(id));
-//     }
-//     let users = await Parse.Object.fetchAll(unfilledUsers, { useMasterKey: true });
-//     let usersString = "";
-//     for (let user of users) {
-//         usersString += user.get("displayName") + ", ";
-//     }
-//     if (usersString.length > 0) {
-//         usersString = usersString.substring(0, usersString.length - 2);
-//     }
-
-//     res.send({ status: "OK" });
-// }
+import { handleRequestIntro } from './RequestHelpers';
+import { getUserProfileByID } from "./ParseHelpers";
+import { getOrCreateRole, getParseAdminRole, getUserRoleNames, setUserRole } from "./Roles";
+import { syncTwilioChatRoles } from "./RoleManagement";
+import {
+    ConferenceT,
+    ModerationReport,
+    ModerationReportT,
+    ModerationReportTargetType,
+    TextChat,
+    TextChatT,
+    UserT,
+    VideoRoom
+} from "./SchemaTypes";
+import { getProvider } from "./Twilio";
+import { getRoom, kickParticipants } from "./Video";
+import { ClowdrConfig } from "./Config";
+import { getRequestOrigin, recordAuditLog } from "./AuditLog";
+
+const MAX_EXCERPT_LENGTH = 280;
+
+// Given back on unban to anyone who had no roles when they were banned
+const DEFAULT_ROLES: Array<RoleNames> = ["attendee"];
+
+export async function getModerationHub(conf: ConferenceT): Promise<TextChatT | undefined> {
+    const q = new Parse.Query(TextChat);
+    q.equalTo("conference", conf);
+    q.equalTo("mode", "moderation_hub");
+    return q.first({ useMasterKey: true });
+}
+
+function truncate(text: string): string {
+    return text.length > MAX_EXCERPT_LENGTH
+        ? text.substr(0, MAX_EXCERPT_LENGTH - 1) + "…"
+        : text;
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - profile: id of the user profile to ban or unban
+ *  - isBan: true to ban, false to unban
+ *
+ * Response body:
+ *  - status: "OK"
+ *  or an error
+ */
+export async function handleBanUser(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, config, userProfile } = requestContext;
+
+        const profileId = req.body.profile;
+        if (!profileId || typeof profileId !== "string") {
+            res.status(400);
+            res.send({ status: "Invalid or missing profile id" });
+            return;
+        }
+
+        const isBan = req.body.isBan === true || req.body.isBan === "true";
+        if (isBan && profileId === userProfile.id) {
+            res.status(400);
+            res.send({ status: "You cannot ban yourself." });
+            return;
+        }
+
+        const targetProfile = await getUserProfileByID(profileId, conf);
+        if (!targetProfile) {
+            res.status(400);
+            res.send({ status: "Invalid profile." });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/users/ban]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Target: '${targetProfile.get("displayName")}' (${targetProfile.id}), Ban: ${isBan}`);
+
+        const targetUser = targetProfile.get("user") as UserT;
+        const wasBanned = !!targetProfile.get("isBanned");
+
+        // The user account is shared between conferences, so the ban is only
+        // applied through this conference's profile and roles: banned users
+        // can't edit their profile, and lose their roles (and with them
+        // access to anything restricted to the conference's members) until
+        // they're unbanned.
+        const profileACL = targetProfile.getACL() ?? new Parse.ACL();
+        profileACL.setWriteAccess(targetUser, !isBan);
+        targetProfile.setACL(profileACL);
+        targetProfile.set("isBanned", isBan);
+        if (isBan && !wasBanned) {
+            const roles = await getUserRoleNames(targetUser.id, conf.id);
+            for (const role of roles) {
+                await setUserRole(conf, targetUser, role, false);
+            }
+            targetProfile.set("rolesBeforeBan", roles);
+        }
+        else if (!isBan && wasBanned) {
+            const roles = targetProfile.get("rolesBeforeBan") ?? [];
+            for (const role of roles.length > 0 ? roles : DEFAULT_ROLES) {
+                await setUserRole(conf, targetUser, role, true);
+            }
+            targetProfile.unset("rolesBeforeBan");
+        }
+        await targetProfile.save(null, { useMasterKey: true });
+
+        const provider = await getProvider(conf.id, config);
+        const chatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+        if (isBan) {
+            // Removing the chat user drops all their channel memberships and
+            // invalidates their chat session immediately.
+            try {
+                await chatService.users(targetProfile.id).remove();
+            }
+            catch (e) {
+                // They may never have connected to chat
+            }
+
+            const roomsQ = new Parse.Query(VideoRoom);
+            roomsQ.equalTo("conference", conf);
+            roomsQ.exists("twilioID");
+            await roomsQ.each(async room => {
+                try {
+                    await kickParticipants(room, provider, targetProfile.id);
+                }
+                catch (e) {
+                    console.error(`Failed to kick banned user ${targetProfile.id} from video room ${room.id}`, e);
+                }
+            }, { useMasterKey: true });
+        }
+        else {
+            // Creating the chat user through the REST API doesn't trigger
+            // onUserAdded (and, once it exists, connecting won't either), so
+            // their roles and base channel memberships are restored here.
+            try {
+                await chatService.users.create({ identity: targetProfile.id });
+            }
+            catch (e) {
+                // They may have already been recreated
+            }
+            await syncTwilioChatRoles(conf, config, targetProfile);
+        }
+
+        await recordAuditLog(conf, userProfile, isBan ? "user:ban" : "user:unban", targetProfile.id, {}, {
+            origin: getRequestOrigin(req),
+            before: { isBanned: wasBanned },
+            after: { isBanned: isBan }
+        });
+
+        res.send({ status: "OK" });
+    } catch (err) {
+        next(err);
+    }
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - targetType: "message" | "profile" | "videoRoom"
+ *  - target: message sid, user profile id or video room id
+ *  - channel: channel sid (only when reporting a message)
+ *  - reason: why the target is being reported
+ *
+ * Response body:
+ *  - report: the id of the new report
+ *  or an error
+ */
+export async function handleReport(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { sessionToken, conf, config, userProfile } = requestContext;
+
+        const targetType = req.body.targetType as ModerationReportTargetType;
+        if (targetType !== "message" && targetType !== "profile" && targetType !== "videoRoom") {
+            res.status(400);
+            res.send({ status: "Invalid or missing target type" });
+            return;
+        }
+
+        const targetId = req.body.target;
+        if (!targetId || typeof targetId !== "string") {
+            res.status(400);
+            res.send({ status: "Invalid or missing target" });
+            return;
+        }
+
+        const reason = req.body.reason;
+        if (!reason || typeof reason !== "string") {
+            res.status(400);
+            res.send({ status: "Invalid or missing reason" });
+            return;
+        }
+
+        const provider = await getProvider(conf.id, config);
+        const chatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+
+        let channelSid: string | undefined;
+        let excerpt: string;
+        let link: string;
+        if (targetType === "message") {
+            channelSid = req.body.channel;
+            if (!channelSid || typeof channelSid !== "string") {
+                res.status(400);
+                res.send({ status: "Invalid or missing channel sid" });
+                return;
+            }
+
+            const message = await chatService.channels(channelSid).messages(targetId).fetch();
+            const author = await getUserProfileByID(message.from, conf);
+            excerpt = `${author?.get("displayName") ?? message.from}: ${truncate(message.body ?? "")}`;
+
+            const textChatQ = new Parse.Query(TextChat);
+            textChatQ.equalTo("conference", conf);
+            textChatQ.equalTo("twilioID", channelSid);
+            const textChat = await textChatQ.first({ useMasterKey: true });
+            link = textChat ? `/chat/${textChat.id}` : "/";
+        }
+        else if (targetType === "profile") {
+            const targetProfile = await getUserProfileByID(targetId, conf);
+            if (!targetProfile) {
+                res.status(400);
+                res.send({ status: "Invalid profile." });
+                return;
+            }
+            excerpt = truncate(targetProfile.get("displayName"));
+            link = `/profile/${targetProfile.id}`;
+        }
+        else {
+            let room;
+            try {
+                room = await getRoom(targetId, conf, sessionToken);
+            }
+            catch (e) {
+                room = undefined;
+            }
+            if (!room) {
+                res.status(400);
+                res.send({ status: "Invalid room." });
+                return;
+            }
+            excerpt = truncate(room.get("name"));
+            link = `/room/${room.id}`;
+        }
+
+        console.log(`${new Date().toUTCString()} [/moderation/report]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Target: ${targetType} '${targetId}'`);
+
+        const acl = new Parse.ACL();
+        acl.setPublicReadAccess(false);
+        acl.setPublicWriteAccess(false);
+        acl.setRoleReadAccess(await getParseAdminRole(conf), true);
+        acl.setRoleReadAccess(await getOrCreateRole(conf, "manager"), true);
+
+        const report = new ModerationReport();
+        report.set("conference", conf);
+        report.set("reporter", userProfile);
+        report.set("targetType", targetType);
+        report.set("targetId", targetId);
+        report.set("channel", channelSid);
+        report.set("reason", truncate(reason));
+        report.set("excerpt", excerpt);
+        report.set("resolved", false);
+        report.setACL(acl);
+        await report.save(null, { useMasterKey: true });
+
+        const hub = await getModerationHub(conf);
+        if (hub) {
+            const deepLink = config.REACT_APP_FRONTEND_URL.replace(/\/$/, "") + link;
+            const hubMessage = await chatService.channels(hub.get("twilioID")).messages.create({
+                body: `Report from ${userProfile.get("displayName")} about a ${targetType}:
+${excerpt}
+Reason: ${truncate(reason)}
+${deepLink}`,
+                attributes: JSON.stringify({
+                    moderationReport: {
+                        id: report.id,
+                        reporter: userProfile.id,
+                        targetType,
+                        target: targetId,
+                        channel: channelSid,
+                        link: deepLink,
+                        resolved: false
+                    }
+                })
+            });
+            await report.save({ hubMessageSid: hubMessage.sid }, { useMasterKey: true });
+        }
+        else {
+            console.warn(`No moderation hub for conference ${conf.id} - report ${report.id} only saved in Parse.`);
+        }
+
+        res.send({ report: report.id });
+    } catch (err) {
+        next(err);
+    }
+}
+
+async function updateHubMessage(conf: ConferenceT, config: ClowdrConfig, report: ModerationReportT) {
+    const hubMessageSid = report.get("hubMessageSid");
+    const hub = await getModerationHub(conf);
+    if (!hub || !hubMessageSid) {
+        return;
+    }
+
+    const provider = await getProvider(conf.id, config);
+    const message = await provider.chat
+        .services(config.TWILIO_CHAT_SERVICE_SID)
+        .channels(hub.get("twilioID"))
+        .messages(hubMessageSid)
+        .fetch();
+    const attributes = JSON.parse(message.attributes) ?? {};
+    attributes.moderationReport = {
+        ...(attributes.moderationReport ?? {}),
+        resolved: report.get("resolved"),
+        resolvedBy: report.get("resolvedBy")?.id
+    };
+    await message.update({ attributes: JSON.stringify(attributes) });
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - report: report id
+ *  - resolved: (optional) false to re-open the report
+ *
+ * Response body:
+ *  - status: "OK"
+ *  or an error
+ */
+export async function handleResolveReport(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, config, userProfile } = requestContext;
+
+        const reportId = req.body.report;
+        if (!reportId || typeof reportId !== "string") {
+            res.status(400);
+            res.send({ status: "Invalid or missing report id" });
+            return;
+        }
+
+        const resolved = !(req.body.resolved === false || req.body.resolved === "false");
+
+        const q = new Parse.Query(ModerationReport);
+        q.equalTo("conference", conf);
+        let report: ModerationReportT;
+        try {
+            report = await q.get(reportId, { useMasterKey: true });
+        }
+        catch (e) {
+            res.status(400);
+            res.send({ status: "Invalid report." });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/moderation/resolve]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Report: '${reportId}', Resolved: ${resolved}`);
+
+        const wasResolved = !!report.get("resolved");
+        report.set("resolved", resolved);
+        report.set("resolvedBy", resolved ? userProfile : undefined);
+        report.set("resolvedAt", resolved ? new Date() : undefined);
+        await report.save(null, { useMasterKey: true });
+
+        try {
+            await updateHubMessage(conf, config, report);
+        }
+        catch (e) {
+            console.warn(`Could not update moderation hub message for report ${report.id}`, e);
+        }
+
+        await recordAuditLog(conf, userProfile, resolved ? "moderation:report:resolve" : "moderation:report:reopen", report.id, {}, {
+            origin: getRequestOrigin(req),
+            before: { resolved: wasResolved },
+            after: { resolved }
+        });
+
+        res.send({ status: "OK" });
+    } catch (err) {
+        next(err);
+    }
+}
@@ -1,9 +1,11 @@
 import Parse from "parse/node";
 import { Enqueue } from "twilio/lib/twiml/VoiceResponse";
+import { ExpiringCache } from "./Cache";
 import { getConfig } from "./Config";
-import { initChatRooms } from "./InitConference";
+import { initConference } from "./InitConference";
 import { Conference, ConferenceT, User, UserT, UserProfile, UserProfileT, RoleT, Role } from "./SchemaTypes";
 import { configureTwilio } from "./Twilio";
+import { startVideoRoomScheduler } from "./VideoSchedule";
 
 export async function getSession(token: string): Promise<Parse.Session | null> {
     const query = new Parse.Query(Parse.Session);
@@ -16,7 +18,10 @@ export async function getSession(token: string): Promise<Parse.Session | null> {
     return null;
 }
 
-const conferenceCache = new Map<string, ConferenceT>();
+const conferenceCache = new ExpiringCache<ConferenceT>();
+// Conferences that have been set up since the backend started - refetching an
+// expired conference doesn't repeat this
+const initialisedConferences = new Set<string>();
 export async function getConference(id: string): Promise<ConferenceT> {
     let result = conferenceCache.get(id);
     if (result) {
@@ -27,16 +32,30 @@ export async function getConference(id: string): Promise<ConferenceT> {
     result = await q.get(id, { useMasterKey: true });
     conferenceCache.set(id, result);
 
-    // Initialise config cache for this conference
-    const config = await getConfig(result.id);
-    // Initialise Twilio if necessary
-    await configureTwilio(result.id, config);
-    // Initialise the conference if it has not already been
-    await initChatRooms(result);
+    if (!initialisedConferences.has(id)) {
+        initialisedConferences.add(id);
+
+        // Initialise config cache for this conference
+        const config = await getConfig(result.id);
+        // Initialise Twilio if necessary
+        await configureTwilio(result.id, config);
+        // Bring our view of rooms and chats back in line with Twilio
+        await initConference(result);
+        // Open and close scheduled video rooms on time
+        startVideoRoomScheduler(result);
+    }
 
     return result;
 }
 
+/**
+ * Forgets the cached conference object, so the next `getConference` fetches
+ * it again (without setting the conference up again).
+ */
+export function invalidateConference(id: string) {
+    conferenceCache.delete(id);
+}
+
 export async function getUserProfile(user: UserT, conf: ConferenceT): Promise<UserProfileT | undefined> {
     const uq = new Parse.Query(UserProfile);
     uq.equalTo("user", user);
@@ -0,0 +1,376 @@
+import Twilio from "twilio";
+
+// The messaging and video operations the backend relies on, independent of
+// any one vendor. The shape deliberately follows the subset of the Twilio
+// REST client we use, so the Twilio client satisfies it almost as-is and
+// handlers read the same whichever implementation is behind them. Anything
+// not listed here must not be used from a handler - add it here (and to the
+// fake) first.
+
+export type ProviderName = "twilio" | "fake";
+
+/*********
+ * Chat *
+ *********/
+
+export type ChatRoleType = "channel" | "deployment";
+export type ChatChannelType = "public" | "private";
+
+export interface ChatServiceInstance {
+    sid: string;
+    friendlyName: string;
+    reachabilityEnabled: boolean;
+    readStatusEnabled: boolean;
+    preWebhookUrl: string;
+    postWebhookUrl: string;
+    webhookMethod: string;
+    webhookFilters: Array<string>;
+    defaultServiceRoleSid: string;
+    defaultChannelRoleSid: string;
+    defaultChannelCreatorRoleSid: string;
+}
+
+export type ChatServiceUpdateOptions = {
+    reachabilityEnabled?: boolean;
+    readStatusEnabled?: boolean;
+    preWebhookUrl?: string;
+    postWebhookUrl?: string;
+    webhookMethod?: string;
+    webhookFilters?: Array<string>;
+    defaultServiceRoleSid?: string;
+    defaultChannelRoleSid?: string;
+    defaultChannelCreatorRoleSid?: string;
+};
+
+export interface ChatRoleInstance {
+    sid: string;
+    friendlyName: string;
+    type: ChatRoleType;
+    permissions: Array<string>;
+    update(opts: { permission: Array<string> }): Promise<ChatRoleInstance>;
+}
+
+export interface ChatUserInstance {
+    sid: string;
+    identity: string;
+    roleSid: string;
+}
+
+export type ChatUserChannelStatus = "joined" | "invited" | "not_participating";
+
+export interface ChatUserChannelInstance {
+    channelSid: string;
+    memberSid: string;
+    status: ChatUserChannelStatus;
+}
+
+export interface ChatUserContext {
+    fetch(): Promise<ChatUserInstance>;
+    update(opts: { roleSid?: string }): Promise<ChatUserInstance>;
+    remove(): Promise<boolean>;
+    /** The channels the user is a member of (or invited to) */
+    userChannels: {
+        list(): Promise<Array<ChatUserChannelInstance>>;
+    };
+}
+
+export interface ChatUserList {
+    (identity: string): ChatUserContext;
+    create(opts: { identity: string, roleSid?: string }): Promise<ChatUserInstance>;
+}
+
+export interface ChatChannelInstance {
+    sid: string;
+    friendlyName: string;
+    type: ChatChannelType;
+    attributes: string;
+    createdBy: string;
+    membersCount: number;
+    remove(): Promise<boolean>;
+}
+
+export interface ChatMemberInstance {
+    sid: string;
+    identity: string;
+    roleSid: string;
+}
+
+export interface ChatMemberContext {
+    update(opts: { roleSid?: string }): Promise<ChatMemberInstance>;
+    remove(): Promise<boolean>;
+}
+
+export interface ChatMemberList {
+    (identity: string): ChatMemberContext;
+    list(opts?: { identity?: string | Array<string> }): Promise<Array<ChatMemberInstance>>;
+    create(opts: { identity: string, roleSid?: string }): Promise<ChatMemberInstance>;
+}
+
+export interface ChatMessageInstance {
+    sid: string;
+    index: number;
+    from: string;
+    body: string;
+    attributes: string;
+    dateCreated: Date;
+    update(opts: { body?: string, attributes?: string }): Promise<ChatMessageInstance>;
+    remove(): Promise<boolean>;
+}
+
+export interface ChatMessageContext {
+    fetch(): Promise<ChatMessageInstance>;
+}
+
+export interface ChatMessageList {
+    (sid: string): ChatMessageContext;
+    create(opts: { body?: string, attributes?: string, from?: string }): Promise<ChatMessageInstance>;
+}
+
+// Only set for webhook (rather than e.g. Studio) channel webhooks
+export type ChatWebhookConfiguration = {
+    url?: string;
+    method?: "GET" | "POST";
+    filters?: Array<string>;
+};
+
+export interface ChatWebhookInstance {
+    sid: string;
+    type: string;
+    configuration: ChatWebhookConfiguration;
+}
+
+export interface ChatWebhookList {
+    list(): Promise<Array<ChatWebhookInstance>>;
+    create(opts: {
+        type: "webhook",
+        configuration: Required<ChatWebhookConfiguration>
+    }): Promise<ChatWebhookInstance>;
+}
+
+export interface ChatChannelContext {
+    fetch(): Promise<ChatChannelInstance>;
+    remove(): Promise<boolean>;
+    members: ChatMemberList;
+    messages: ChatMessageList;
+    webhooks: ChatWebhookList;
+}
+
+export interface ChatChannelList {
+    (sid: string): ChatChannelContext;
+    list(opts?: { type?: ChatChannelType | Array<ChatChannelType> }): Promise<Array<ChatChannelInstance>>;
+    create(opts: {
+        friendlyName?: string,
+        uniqueName?: string,
+        type?: ChatChannelType,
+        createdBy?: string,
+        attributes?: string
+    }): Promise<ChatChannelInstance>;
+}
+
+export interface ChatServiceList {
+    (sid: string): ChatServiceContext;
+    list(): Promise<Array<ChatServiceInstance>>;
+    create(opts: { friendlyName: string }): Promise<ChatServiceInstance>;
+}
+
+export interface ChatServiceContext {
+    fetch(): Promise<ChatServiceInstance>;
+    update(opts: ChatServiceUpdateOptions): Promise<ChatServiceInstance>;
+    roles: {
+        list(): Promise<Array<ChatRoleInstance>>;
+        create(opts: { friendlyName: string, type: ChatRoleType, permission: Array<string> }): Promise<ChatRoleInstance>;
+    };
+    users: ChatUserList;
+    channels: ChatChannelList;
+}
+
+/**********
+ * Video *
+ **********/
+
+export type VideoRoomType = "group" | "group-small" | "peer-to-peer";
+export type VideoRoomStatus = "in-progress" | "completed" | "failed";
+export type VideoParticipantStatus = "connected" | "disconnected";
+export type VideoTrackKind = "audio" | "video" | "data";
+
+export type VideoSubscribeRule = {
+    type: "include" | "exclude";
+    all?: boolean;
+    publisher?: string;
+    kind?: VideoTrackKind;
+    track?: string;
+};
+
+export type VideoRecordingRule = {
+    type: "include" | "exclude";
+    all?: boolean;
+    publisher?: string;
+    kind?: VideoTrackKind;
+};
+
+export type VideoCompositionStatus = "enqueued" | "processing" | "completed" | "deleted" | "failed";
+
+export interface VideoRoomInstance {
+    sid: string;
+    uniqueName: string;
+    type: VideoRoomType;
+    status: VideoRoomStatus;
+    statusCallback: string;
+    maxParticipants: number;
+    update(opts: { status: "completed" }): Promise<VideoRoomInstance>;
+}
+
+export interface VideoParticipantInstance {
+    sid: string;
+    identity: string;
+    status: VideoParticipantStatus;
+    update(opts: { status: "disconnected" }): Promise<VideoParticipantInstance>;
+}
+
+export interface VideoParticipantContext {
+    update(opts: { status: "disconnected" }): Promise<VideoParticipantInstance>;
+    /** Which tracks this participant receives - replaces any previous rules */
+    subscribeRules: {
+        update(opts: { rules: Array<VideoSubscribeRule> }): Promise<{ rules: Array<VideoSubscribeRule> }>;
+    };
+}
+
+export interface VideoParticipantList {
+    (sidOrIdentity: string): VideoParticipantContext;
+    list(opts?: { identity?: string, status?: VideoParticipantStatus }): Promise<Array<VideoParticipantInstance>>;
+}
+
+export interface VideoRoomContext {
+    fetch(): Promise<VideoRoomInstance>;
+    update(opts: { status: "completed" }): Promise<VideoRoomInstance>;
+    participants: VideoParticipantList;
+    /** Which tracks are recorded - replaces any previous rules */
+    recordingRules: {
+        update(opts: { rules: Array<VideoRecordingRule> }): Promise<{ rules: Array<VideoRecordingRule> }>;
+    };
+}
+
+export interface VideoRoomList {
+    /** Looks a room up by its SID or unique name */
+    (sidOrUniqueName: string): VideoRoomContext;
+    list(opts?: { status?: VideoRoomStatus, uniqueName?: string }): Promise<Array<VideoRoomInstance>>;
+    create(opts: {
+        type?: VideoRoomType,
+        uniqueName?: string,
+        maxParticipants?: number,
+        statusCallback?: string,
+        recordParticipantsOnConnect?: boolean
+    }): Promise<VideoRoomInstance>;
+}
+
+export interface VideoCompositionInstance {
+    sid: string;
+    roomSid: string;
+    status: VideoCompositionStatus;
+    format: string;
+}
+
+export interface VideoCompositionList {
+    /** Only rooms that have ended can be composed */
+    create(opts: {
+        roomSid: string,
+        audioSources?: Array<string>,
+        videoLayout?: object,
+        format?: "mp4" | "webm",
+        statusCallback?: string
+    }): Promise<VideoCompositionInstance>;
+}
+
+/*************
+ * Accounts *
+ *************/
+
+export type AccountStatus = "active" | "suspended" | "closed";
+
+export interface AccountInstance {
+    sid: string;
+    friendlyName: string;
+    authToken: string;
+    status: AccountStatus;
+}
+
+/** Subaccounts of the provider's account */
+export interface AccountList {
+    list(opts?: { friendlyName?: string, status?: AccountStatus }): Promise<Array<AccountInstance>>;
+    create(opts: { friendlyName: string }): Promise<AccountInstance>;
+}
+
+export interface ApiKeyInstance {
+    sid: string;
+    friendlyName: string;
+}
+
+export interface ApiKeyList {
+    list(): Promise<Array<ApiKeyInstance>>;
+    /** The secret is only ever available from here */
+    create(opts: { friendlyName: string }): Promise<ApiKeyInstance & { secret: string }>;
+}
+
+/*************
+ * Provider *
+ *************/
+
+export interface Provider {
+    accounts: AccountList;
+    keys: ApiKeyList;
+    chat: {
+        services: ChatServiceList;
+    };
+    video: {
+        rooms: VideoRoomList;
+        compositions: VideoCompositionList;
+    };
+}
+
+/**
+ * This version of the Twilio library predates the Recording Rules API, so
+ * room contexts get it added here as a plain REST call.
+ */
+function withRecordingRules(client: Twilio.Twilio): VideoRoomList {
+    const rooms = client.video.rooms;
+    // The library types the subscribe rules Twilio sends back as strings, but
+    // they're rule objects like the ones sent
+    const context = (sidOrUniqueName: string): VideoRoomContext => Object.assign(rooms(sidOrUniqueName) as unknown as Omit<VideoRoomContext, "recordingRules">, {
+        recordingRules: {
+            update: async (opts: { rules: Array<VideoRecordingRule> }) => {
+                const response = await client.request({
+                    method: "POST",
+                    uri: `https://video.twilio.com/v1/Rooms/${encodeURIComponent(sidOrUniqueName)}/RecordingRules`,
+                    data: { Rules: JSON.stringify(opts.rules) }
+                });
+                const body = typeof response.body === "string" ? JSON.parse(response.body) : response.body;
+                if (response.statusCode < 200 || response.statusCode >= 300) {
+                    throw Object.assign(new Error(body?.message ?? `Updating recording rules failed (${response.statusCode})`), {
+                        status: response.statusCode
+                    });
+                }
+                return { rules: body.rules };
+            }
+        }
+    });
+    return Object.assign(context, {
+        list: (opts?: { status?: VideoRoomStatus, uniqueName?: string }) => rooms.list(opts),
+        create: (opts: Parameters<VideoRoomList["create"]>[0]) => rooms.create(opts)
+    });
+}
+
+export function createTwilioProvider(accountSID: string, authToken: string): Provider {
+    const client = Twilio(accountSID, authToken);
+    return {
+        accounts: client.api.accounts,
+        keys: {
+            list: () => client.keys.list(),
+            create: (opts: { friendlyName: string }) => client.newKeys.create(opts)
+        },
+        chat: client.chat,
+        video: {
+            rooms: withRecordingRules(client),
+            compositions: client.video.compositions
+        }
+    };
+}
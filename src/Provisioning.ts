@@ -0,0 +1,287 @@
+import assert from "assert";
+import Parse from "parse/node";
+import { RoleNames } from "@clowdr-app/clowdr-db-schema/build/DataLayer/Schema/_Role";
+
+import { ClowdrConfig, getConfig, invalidateConfig, setConfigValue } from "./Config";
+import { ChatServiceContext, ChatServiceUpdateOptions, Provider } from "./Provider";
+import { getOrCreateRole, invalidateRoles } from "./Roles";
+import { ConferenceT, TextChat, TextChatT } from "./SchemaTypes";
+import { applyTwilioChatServiceSpec } from "./TwilioServiceSpec";
+import { getAccountProvider, invalidateProvider } from "./Twilio";
+
+// Sets up everything a conference needs before the backend can serve it: the
+// Parse roles, the Twilio account (optionally a dedicated subaccount) and API
+// key, the chat service, the announcements channel and the moderation hub.
+// Every SID created is written to the conference's configuration straight
+// away, and anything already configured (or findable by name, in case an
+// earlier run failed before recording it) is reused - so running this again
+// only fills in what's missing.
+
+const ANNOUNCEMENTS_UNIQUE_NAME = "announcements";
+const MODERATION_HUB_UNIQUE_NAME = "moderation_hub";
+
+export type ProvisioningOptions = {
+    // Credentials of the account to provision in (or to create a subaccount
+    // under) - only used if the conference has no account configured yet
+    accountSID?: string;
+    authToken?: string;
+    // Give the conference its own Twilio subaccount
+    subaccount: boolean;
+    chatPreWebhookURL?: string;
+    chatPostWebhookURL?: string;
+};
+
+type ProvisioningStep = {
+    what: string;
+    // "ensured": created if it was missing
+    result: "created" | "reused" | "updated" | "ensured";
+    sid?: string;
+};
+
+function getFriendlyName(conf: ConferenceT): string {
+    return `Clowdr: ${conf.get("name")} (${conf.id})`;
+}
+
+async function ensureRoles(conf: ConferenceT, steps: Array<ProvisioningStep>) {
+    // Admin first: the other roles include it
+    const roleNames: Array<RoleNames> = ["admin", "manager", "attendee"];
+    for (const roleName of roleNames) {
+        const role = await getOrCreateRole(conf, roleName);
+        steps.push({ what: `Parse role '${roleName}'`, result: "ensured", sid: role.id });
+    }
+}
+
+async function ensureAccount(
+    conf: ConferenceT,
+    config: ClowdrConfig,
+    options: ProvisioningOptions,
+    steps: Array<ProvisioningStep>
+): Promise<Provider> {
+    if (config.TWILIO_ACCOUNT_SID && config.TWILIO_AUTH_TOKEN) {
+        steps.push({ what: "Twilio account", result: "reused", sid: config.TWILIO_ACCOUNT_SID });
+        return getAccountProvider(config.PROVIDER, config.TWILIO_ACCOUNT_SID, config.TWILIO_AUTH_TOKEN);
+    }
+
+    assert(options.accountSID && options.authToken, "No Twilio account configured for the conference, and no credentials provided.");
+    let accountSID = options.accountSID;
+    let authToken = options.authToken;
+
+    if (options.subaccount) {
+        const parent = getAccountProvider(config.PROVIDER, accountSID, authToken);
+        const friendlyName = getFriendlyName(conf);
+        const existing = await parent.accounts.list({ friendlyName, status: "active" });
+        const account = existing[0] ?? await parent.accounts.create({ friendlyName });
+        steps.push({ what: "Twilio subaccount", result: existing[0] ? "reused" : "created", sid: account.sid });
+        accountSID = account.sid;
+        authToken = account.authToken;
+    }
+    else {
+        steps.push({ what: "Twilio account", result: "reused", sid: accountSID });
+    }
+
+    await setConfigValue(conf, "TWILIO_ACCOUNT_SID", accountSID);
+    await setConfigValue(conf, "TWILIO_AUTH_TOKEN", authToken);
+    return getAccountProvider(config.PROVIDER, accountSID, authToken);
+}
+
+async function ensureApiKey(
+    conf: ConferenceT,
+    config: ClowdrConfig,
+    provider: Provider,
+    steps: Array<ProvisioningStep>
+) {
+    if (config.TWILIO_API_KEY) {
+        const configuredKey = config.TWILIO_API_KEY;
+        if ((await provider.keys.list()).some(x => x.sid === configuredKey)) {
+            // An existing key's secret can't be fetched, and replacing the key
+            // would break every token already handed out with it
+            assert(config.TWILIO_API_SECRET, `TWILIO_API_SECRET is missing for Twilio API key ${configuredKey} - set it, or remove TWILIO_API_KEY to create a new key.`);
+            steps.push({ what: "Twilio API key", result: "reused", sid: configuredKey });
+            return;
+        }
+        console.warn(`Configured Twilio API key ${configuredKey} not found - replacing it.`);
+    }
+
+    const key = await provider.keys.create({ friendlyName: getFriendlyName(conf) });
+    await setConfigValue(conf, "TWILIO_API_KEY", key.sid);
+    await setConfigValue(conf, "TWILIO_API_SECRET", key.secret);
+    steps.push({ what: "Twilio API key", result: "created", sid: key.sid });
+}
+
+async function ensureChatService(
+    conf: ConferenceT,
+    config: ClowdrConfig,
+    provider: Provider,
+    options: ProvisioningOptions,
+    steps: Array<ProvisioningStep>
+): Promise<ChatServiceContext> {
+    let sid: string | undefined;
+    let result: ProvisioningStep["result"] = "reused";
+    if (config.TWILIO_CHAT_SERVICE_SID) {
+        try {
+            sid = (await provider.chat.services(config.TWILIO_CHAT_SERVICE_SID).fetch()).sid;
+        }
+        catch (e) {
+            if (e.status !== 404) {
+                throw e;
+            }
+            console.warn(`Configured chat service ${config.TWILIO_CHAT_SERVICE_SID} not found - replacing it.`);
+        }
+    }
+    if (!sid) {
+        const friendlyName = getFriendlyName(conf);
+        const existing = (await provider.chat.services.list()).find(x => x.friendlyName === friendlyName);
+        if (existing) {
+            sid = existing.sid;
+        }
+        else {
+            sid = (await provider.chat.services.create({ friendlyName })).sid;
+            result = "created";
+        }
+        await setConfigValue(conf, "TWILIO_CHAT_SERVICE_SID", sid);
+    }
+    steps.push({ what: "Twilio chat service", result, sid });
+
+    const chatService = provider.chat.services(sid);
+    const drift = await applyTwilioChatServiceSpec(chatService, config, true);
+    if (drift.length > 0) {
+        steps.push({ what: `Twilio chat service spec (${drift.length} difference(s))`, result: "updated", sid });
+    }
+
+    const service = await chatService.fetch();
+    const webhooks: ChatServiceUpdateOptions = {};
+    if (options.chatPreWebhookURL && service.preWebhookUrl !== options.chatPreWebhookURL) {
+        webhooks.preWebhookUrl = options.chatPreWebhookURL;
+    }
+    if (options.chatPostWebhookURL && service.postWebhookUrl !== options.chatPostWebhookURL) {
+        webhooks.postWebhookUrl = options.chatPostWebhookURL;
+    }
+    if (Object.keys(webhooks).length > 0) {
+        await chatService.update(webhooks);
+        steps.push({ what: "Twilio chat webhooks", result: "updated", sid });
+    }
+
+    return chatService;
+}
+
+/**
+ * Finds the channel by (in order) its configured SID or its unique name, or
+ * creates it.
+ */
+async function ensureChannel(
+    chatService: ChatServiceContext,
+    configuredSid: string | undefined,
+    uniqueName: string,
+    friendlyName: string
+): Promise<{ sid: string, created: boolean }> {
+    for (const sidOrUniqueName of [configuredSid, uniqueName]) {
+        if (sidOrUniqueName) {
+            try {
+                return { sid: (await chatService.channels(sidOrUniqueName).fetch()).sid, created: false };
+            }
+            catch (e) {
+                if (e.status !== 404) {
+                    throw e;
+                }
+            }
+        }
+    }
+
+    const channel = await chatService.channels.create({
+        friendlyName,
+        uniqueName,
+        type: "private",
+        createdBy: "system",
+        attributes: JSON.stringify({
+            isDM: false,
+            isPrivate: true
+        })
+    });
+    return { sid: channel.sid, created: true };
+}
+
+async function ensureAnnouncementsChannel(
+    conf: ConferenceT,
+    config: ClowdrConfig,
+    chatService: ChatServiceContext,
+    steps: Array<ProvisioningStep>
+) {
+    const { sid, created } = await ensureChannel(
+        chatService,
+        config.TWILIO_ANNOUNCEMENTS_CHANNEL_SID,
+        ANNOUNCEMENTS_UNIQUE_NAME,
+        "Announcements"
+    );
+    if (sid !== config.TWILIO_ANNOUNCEMENTS_CHANNEL_SID) {
+        await setConfigValue(conf, "TWILIO_ANNOUNCEMENTS_CHANNEL_SID", sid);
+    }
+    steps.push({ what: "Announcements channel", result: created ? "created" : "reused", sid });
+}
+
+async function ensureModerationHub(
+    conf: ConferenceT,
+    chatService: ChatServiceContext,
+    steps: Array<ProvisioningStep>
+) {
+    const q = new Parse.Query(TextChat);
+    q.equalTo("conference", conf);
+    q.equalTo("mode", "moderation_hub");
+    let textChat: TextChatT | undefined = await q.first({ useMasterKey: true });
+
+    const { sid, created } = await ensureChannel(
+        chatService,
+        textChat?.get("twilioID"),
+        MODERATION_HUB_UNIQUE_NAME,
+        "Moderation Hub"
+    );
+    steps.push({ what: "Moderation hub channel", result: created ? "created" : "reused", sid });
+
+    if (textChat && textChat.get("twilioID") === sid) {
+        steps.push({ what: "Moderation hub TextChat", result: "reused", sid: textChat.id });
+        return;
+    }
+
+    const result = textChat ? "updated" : "created";
+    if (!textChat) {
+        // Only moderators can see it
+        const acl = new Parse.ACL();
+        acl.setPublicReadAccess(false);
+        acl.setPublicWriteAccess(false);
+        acl.setRoleReadAccess(await getOrCreateRole(conf, "admin"), true);
+        acl.setRoleReadAccess(await getOrCreateRole(conf, "manager"), true);
+
+        textChat = new TextChat();
+        textChat.set("conference", conf);
+        textChat.set("name", "Moderation Hub");
+        textChat.set("mode", "moderation_hub");
+        textChat.set("isDM", false);
+        textChat.set("autoWatch", false);
+        textChat.set("mirrored", false);
+        textChat.setACL(acl);
+    }
+    textChat.set("twilioID", sid);
+    await textChat.save(null, { useMasterKey: true });
+    steps.push({ what: "Moderation hub TextChat", result, sid: textChat.id });
+}
+
+/**
+ * Provisions the conference (see above). Safe to run repeatedly.
+ *
+ * @returns What was created, reused or updated
+ */
+export async function provisionConference(conf: ConferenceT, options: ProvisioningOptions): Promise<Array<ProvisioningStep>> {
+    const steps: Array<ProvisioningStep> = [];
+
+    await ensureRoles(conf, steps);
+
+    const provider = await ensureAccount(conf, await getConfig(conf.id), options, steps);
+    await ensureApiKey(conf, await getConfig(conf.id), provider, steps);
+    const chatService = await ensureChatService(conf, await getConfig(conf.id), provider, options, steps);
+    await ensureAnnouncementsChannel(conf, await getConfig(conf.id), chatService, steps);
+    await ensureModerationHub(conf, chatService, steps);
+
+    invalidateConfig(conf.id);
+    invalidateRoles(conf.id);
+    invalidateProvider(conf.id);
+    return steps;
+}
@@ -24,14 +24,20 @@ export async function callWithRetry<T>(f: () => Promise<T>): Promise<T> {
     return response;
 }
 
-export async function handleRequestIntro(req: Request, res: Response, next: NextFunction):
-    Promise<{
-        sessionToken: string,
-        sessionObj: Parse.Session,
-        conf: ConferenceT,
-        config: ClowdrConfig,
-        userProfile: UserProfileT
-    } | undefined> {
+export type RequestContext = {
+    sessionToken: string,
+    sessionObj: Parse.Session,
+    conf: ConferenceT,
+    config: ClowdrConfig,
+    userProfile: UserProfileT
+};
+
+/**
+ * Checks the request's session token and conference. Only `authorize` should
+ * call this - handlers use `handleRequestIntro`.
+ */
+export async function authenticateRequest(req: Request, res: Response):
+    Promise<RequestContext | undefined> {
     let ok = true;
     const sessionToken = req.body.identity;
     const sessionObj = await getSession(sessionToken);
@@ -71,3 +77,36 @@ export async function handleRequestIntro(req: Request, res: Response, next: Next
         return undefined;
     }
 }
+
+/**
+ * Gets the caller's session details, as already checked by the route's
+ * `authorize` middleware. Routes registered without it are refused, so a
+ * forgotten policy denies access rather than granting it.
+ */
+export async function handleRequestIntro(req: Request, res: Response, next: NextFunction): Promise<RequestContext | undefined> {
+    const requestContext: RequestContext | undefined = res.locals.requestContext;
+    if (!requestContext) {
+        console.error(`${new Date().toUTCString()} [${req.path}]: No authorization policy was applied - refusing the request.`);
+        res.status(403);
+        res.send({ status: "Permission denied." });
+        return undefined;
+    }
+    return requestContext;
+}
+
+/**
+ * Parses an optional date in a request body (anything `new Date(...)`
+ * accepts).
+ *
+ * @returns undefined if there's no date, null if it isn't a valid one
+ */
+export function parseDate(value: unknown): Date | undefined | null {
+    if (value === undefined || value === null || value === "") {
+        return undefined;
+    }
+    if (typeof value !== "string" && typeof value !== "number") {
+        return null;
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,185 @@
+import assert from "assert";
+import Parse from "parse/node";
+import { Request, Response, NextFunction } from 'express';
+import { RoleNames } from "@clowdr-app/clowdr-db-schema/build/DataLayer/Schema/_Role";
+
+import { getRequestOrigin, recordAuditLog } from "./AuditLog";
+import { ClowdrConfig } from "./Config";
+import { getUserProfileByID } from "./ParseHelpers";
+import { ChatUserChannelInstance } from "./Provider";
+import { handleRequestIntro } from "./RequestHelpers";
+import { getUserRoleNames, isUserInRoles, setUserRole } from "./Roles";
+import { ConferenceT, UserProfileT, UserT } from "./SchemaTypes";
+import { getProvider } from "./Twilio";
+import { ensureTwilioChatRoles, TwilioChatRoleName } from "./TwilioServiceSpec";
+
+// Conference roles are Parse roles, but each also implies Twilio chat roles -
+// the service role and a role in every channel the user is a member of. The
+// chat webhooks (onUserAdded/onMemberAdded) only apply these when someone
+// joins, so changing a role here also brings their existing chat roles into
+// line straight away.
+
+const ASSIGNABLE_ROLES: Array<RoleNames> = ["admin", "manager", "attendee"];
+
+/**
+ * Updates the user's Twilio chat service role and their role in each channel
+ * they're a member of to match their current conference roles. Adds them to
+ * the announcements channel if they aren't in it, and adds them to or removes
+ * them from the moderation hub as appropriate.
+ */
+export async function syncTwilioChatRoles(conf: ConferenceT, config: ClowdrConfig, profile: UserProfileT) {
+    const user = profile.get("user") as UserT;
+    const isAdmin = await isUserInRoles(user.id, conf.id, ["admin"]);
+    const isModerator = isAdmin || await isUserInRoles(user.id, conf.id, ["manager"]);
+
+    const provider = await getProvider(conf.id, config);
+    const chatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+    const roles = await ensureTwilioChatRoles(chatService);
+    const getRoleSid = (name: TwilioChatRoleName) => {
+        const role = roles.find(x => x.friendlyName === name);
+        assert(role);
+        return role.sid;
+    };
+
+    let userChannels: Array<ChatUserChannelInstance>;
+    try {
+        await chatService.users(profile.id).update({
+            roleSid: getRoleSid(isModerator ? "service admin" : "service user")
+        });
+        userChannels = await chatService.users(profile.id).userChannels.list();
+    }
+    catch (e) {
+        if (e.status === 404) {
+            // They've never connected to chat - onUserAdded will give them
+            // the right roles when they do
+            return;
+        }
+        throw e;
+    }
+
+    const moderationTextChatQ = new Parse.Query("TextChat");
+    moderationTextChatQ.equalTo("conference", conf);
+    moderationTextChatQ.equalTo("mode", "moderation_hub");
+    const moderationTextChat = await moderationTextChatQ.first({ useMasterKey: true });
+    const modHubSID: string | undefined = moderationTextChat?.get("twilioID");
+
+    for (const userChannel of userChannels) {
+        if (userChannel.status !== "joined") {
+            continue;
+        }
+
+        const memberCtx = chatService.channels(userChannel.channelSid).members(profile.id);
+        if (userChannel.channelSid === modHubSID) {
+            if (!isModerator) {
+                console.log(`Removing ${profile.get("displayName")} (${profile.id}) from moderation hub.`);
+                await memberCtx.remove();
+            }
+        }
+        else if (userChannel.channelSid === config.TWILIO_ANNOUNCEMENTS_CHANNEL_SID) {
+            await memberCtx.update({
+                roleSid: getRoleSid(isAdmin ? "announcements admin" : "announcements user")
+            });
+        }
+        else {
+            await memberCtx.update({
+                roleSid: getRoleSid(isModerator ? "channel admin" : "channel user")
+            });
+        }
+    }
+
+    const isJoined = (channelSid: string) => userChannels.some(x => x.channelSid === channelSid && x.status === "joined");
+    if (config.TWILIO_ANNOUNCEMENTS_CHANNEL_SID && !isJoined(config.TWILIO_ANNOUNCEMENTS_CHANNEL_SID)) {
+        console.log(`Adding ${profile.get("displayName")} (${profile.id}) to announcements channel as ${isAdmin ? "admin" : "user"}.`);
+        await chatService.channels(config.TWILIO_ANNOUNCEMENTS_CHANNEL_SID).members.create({
+            identity: profile.id,
+            roleSid: getRoleSid(isAdmin ? "announcements admin" : "announcements user")
+        });
+    }
+
+    if (isModerator && modHubSID && !isJoined(modHubSID)) {
+        console.log(`Adding ${profile.get("displayName")} (${profile.id}) to moderation hub as user.`);
+        await chatService.channels(modHubSID).members.create({
+            identity: profile.id,
+            roleSid: getRoleSid("channel user")
+        });
+    }
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - profile: id of the user profile whose role to change
+ *  - role: "admin", "manager" or "attendee"
+ *  - grant: true to give the user the role, false to take it away
+ *
+ * The user's Twilio chat roles are updated immediately.
+ *
+ * Response body: { status: "OK", roles: the user's roles afterwards } or an error
+ */
+export async function handleSetUserRole(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, config, userProfile } = requestContext;
+
+        const profileId = req.body.profile;
+        if (!profileId || typeof profileId !== "string") {
+            res.status(400);
+            res.send({ status: "Invalid or missing profile id" });
+            return;
+        }
+
+        const role = req.body.role;
+        if (!ASSIGNABLE_ROLES.includes(role)) {
+            res.status(400);
+            res.send({ status: `Invalid or missing role - expected one of ${ASSIGNABLE_ROLES.join(", ")}` });
+            return;
+        }
+
+        const grant = req.body.grant === true || req.body.grant === "true";
+        if (!grant && req.body.grant !== false && req.body.grant !== "false") {
+            res.status(400);
+            res.send({ status: "Invalid or missing grant" });
+            return;
+        }
+
+        if (!grant && role === "admin" && profileId === userProfile.id) {
+            res.status(400);
+            res.send({ status: "You cannot remove your own admin role." });
+            return;
+        }
+
+        const targetProfile = await getUserProfileByID(profileId, conf);
+        if (!targetProfile) {
+            res.status(400);
+            res.send({ status: "Invalid profile." });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/users/roles]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Target: '${targetProfile.get("displayName")}' (${targetProfile.id}), Role: ${role}, Grant: ${grant}`);
+
+        const targetUser = targetProfile.get("user") as UserT;
+        const rolesBefore = await getUserRoleNames(targetUser.id, conf.id);
+        await setUserRole(conf, targetUser, role, grant);
+        const rolesAfter = await getUserRoleNames(targetUser.id, conf.id);
+
+        await recordAuditLog(conf, userProfile, grant ? "user:role:grant" : "user:role:revoke", targetProfile.id, {
+            role
+        }, {
+            origin: getRequestOrigin(req),
+            before: { roles: rolesBefore },
+            after: { roles: rolesAfter }
+        });
+
+        // Safe to retry if this fails part way: it only ever moves the chat
+        // roles towards the conference roles
+        await syncTwilioChatRoles(conf, config, targetProfile);
+
+        res.send({ status: "OK", roles: rolesAfter });
+    } catch (err) {
+        next(err);
+    }
+}
@@ -1,13 +1,14 @@
 import { RoleNames } from "@clowdr-app/clowdr-db-schema/build/DataLayer/Schema/_Role";
-import { ConferenceT, Role, RoleT } from "./SchemaTypes";
+import { ConferenceT, Role, RoleT, UserT } from "./SchemaTypes";
 import assert from "assert";
 import Parse from "parse/node";
+import { ExpiringCache } from "./Cache";
 
 function generateRoleName(confId: string, roleName: RoleNames): string {
     return confId + "-" + roleName;
 }
 
-const adminRoleMap = new Map<string, RoleT>();
+const adminRoleMap = new ExpiringCache<RoleT>();
 export async function getParseAdminRole(conf: ConferenceT): Promise<RoleT> {
     let result = adminRoleMap.get(conf.id);
     if (result) {
@@ -23,10 +24,11 @@ export async function getParseAdminRole(conf: ConferenceT): Promise<RoleT> {
         throw new Error(`Could not get admin role for conference: ${conf.id}`);
     }
 
+    adminRoleMap.set(conf.id, result);
     return result;
 }
 
-const roleCache = new Map<string, RoleT>();
+const roleCache = new ExpiringCache<RoleT>();
 export async function getOrCreateRole(conf: ConferenceT, roleName: RoleNames): Promise<RoleT> {
     const name = generateRoleName(conf.id, roleName);
 
@@ -48,10 +50,17 @@ export async function getOrCreateRole(conf: ConferenceT, roleName: RoleNames): P
         if (!role) {
             const roleACL = new Parse.ACL();
 
-            const adminRole = await getParseAdminRole(conf);
             roleACL.setPublicReadAccess(true);
-            let newrole = new Role(name, roleACL);
-            newrole.getRoles().add(adminRole);
+            let newrole = new Role();
+            newrole.setName(name);
+            newrole.setACL(roleACL);
+            // So that it's found by the query above next time
+            newrole.set("conference", conf);
+            // Admins have every other role too
+            if (roleName !== "admin") {
+                const adminRole = await getParseAdminRole(conf);
+                newrole.getRoles().add(adminRole);
+            }
 
             try {
                 newrole = await newrole.save({}, { useMasterKey: true });
@@ -71,6 +80,14 @@ export async function getOrCreateRole(conf: ConferenceT, roleName: RoleNames): P
     return result;
 }
 
+/**
+ * Forgets the conference's cached roles.
+ */
+export function invalidateRoles(confId: string) {
+    adminRoleMap.delete(confId);
+    roleCache.deleteWhere(name => name.startsWith(confId + "-"));
+}
+
 export async function getRoleByName(name: string, conf: ConferenceT): Promise<RoleT> {
     const uq = new Parse.Query(Role);
     uq.equalTo("name", conf.id + "-" + name);
@@ -89,6 +106,36 @@ export async function isUserInRoles(userId: string, confId: string, allowedRoles
     return roles.some(r => allowedRoles.some(allowed => r.get("name") === generateRoleName(confId, allowed)));
 }
 
+/**
+ * The conference roles the user has been given directly.
+ */
+export async function getUserRoleNames(userId: string, confId: string): Promise<Array<RoleNames>> {
+    const rolesQ = new Parse.Query(Parse.Role);
+    rolesQ.equalTo("users", new Parse.Object("_User", { id: userId }));
+    rolesQ.equalTo("conference", new Parse.Object("Conference", { id: confId }))
+
+    const roles = await rolesQ.find({ useMasterKey: true });
+    const allRoleNames: Array<RoleNames> = ["admin", "manager", "attendee"];
+    return allRoleNames.filter(x => roles.some(r => r.get("name") === generateRoleName(confId, x)));
+}
+
+/**
+ * Gives the user one of the conference's roles, or takes it away.
+ */
+export async function setUserRole(conf: ConferenceT, user: UserT, roleName: RoleNames, grant: boolean) {
+    // Not the cached role object: once a relation change has been saved
+    // through an object, the SDK silently drops later changes made through it
+    const role = new Role();
+    role.id = (await getOrCreateRole(conf, roleName)).id;
+    if (grant) {
+        role.getUsers().add(user);
+    }
+    else {
+        role.getUsers().remove(user);
+    }
+    await role.save(null, { useMasterKey: true });
+}
+
 // async function sessionTokenIsFromModerator(sessionToken, confID) {
 //     let session = await getSession(sessionToken);
 //     let user = session.get("user");
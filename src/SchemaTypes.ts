@@ -1,19 +1,118 @@
 import Parse from "parse/node";
 import { PromisesRemapped, WholeSchema, WholeSchemaKeys } from "@clowdr-app/clowdr-db-schema/build/DataLayer/WholeSchema";
+import { RoleNames } from "@clowdr-app/clowdr-db-schema/build/DataLayer/Schema/_Role";
+import { AuditLogOrigin } from "./AuditLog";
 
 export type ParseObjectType<K extends WholeSchemaKeys> = Parse.Object<PromisesRemapped<WholeSchema[K]["value"]>>;
+export type AuditLogT = Parse.Object<PromisesRemapped<WholeSchema["AuditLog"]["value"]> & {
+    // Backend-only fields (see AuditLog.ts)
+    before: object | undefined;
+    after: object | undefined;
+    origin: AuditLogOrigin;
+}>;
 export type ConferenceT = ParseObjectType<"Conference">;
 export type ConferenceConfigT = ParseObjectType<"ConferenceConfiguration">;
+export type ContentFeedT = ParseObjectType<"ContentFeed">;
+export type ModerationReportTargetType = "message" | "profile" | "videoRoom";
+export type ModerationReportT = Parse.Object<{
+    // Backend-only table (not part of clowdr-db-schema)
+    conference: ConferenceT;
+    reporter: UserProfileT;
+    targetType: ModerationReportTargetType;
+    targetId: string;
+    channel: string | undefined;
+    reason: string;
+    excerpt: string;
+    hubMessageSid: string | undefined;
+    resolved: boolean;
+    resolvedBy: UserProfileT | undefined;
+    resolvedAt: Date | undefined;
+}>;
+export type ProgramSessionT = ParseObjectType<"ProgramSession">;
 export type RoleT = Parse.Role<PromisesRemapped<WholeSchema["_Role"]["value"]>>;
 export type TextChatT = ParseObjectType<"TextChat">;
+export type TextChatMessageMedia = {
+    sid: string;
+    filename: string;
+    contentType: string;
+    size: number;
+};
+export type TextChatMessageT = Parse.Object<PromisesRemapped<WholeSchema["TextChatMessage"]["value"]> & {
+    // Backend-only fields used to mirror Twilio messages
+    twilioID: string;
+    author: string;
+    index: number;
+    media: TextChatMessageMedia | undefined;
+}>;
 export type UserT = Parse.User<PromisesRemapped<WholeSchema["_User"]["value"]>>;
-export type UserProfileT = ParseObjectType<"UserProfile">;
-export type VideoRoomT = ParseObjectType<"VideoRoom">;
+export type UserProfileT = Parse.Object<PromisesRemapped<WholeSchema["UserProfile"]["value"]> & {
+    // Backend-only field: the conference roles taken away by a ban, given back on unban
+    rolesBeforeBan: Array<RoleNames> | undefined;
+}>;
+export type VideoMutableTrackKind = "audio" | "video";
+export type VideoRoomMode = "group" | "group-small" | "peer-to-peer";
+export type VideoRoomT = Parse.Object<PromisesRemapped<WholeSchema["VideoRoom"]["value"]> & {
+    // Backend-only fields
+    mode: VideoRoomMode | undefined;
+    creator: UserProfileT | undefined;
+    // Where to send people once the room reaches capacity
+    overflowRoom: VideoRoomT | undefined;
+    // Create an overflow room automatically when none is linked
+    autoOverflow: boolean | undefined;
+    // When the room is available - overrides the times of the program
+    // sessions whose feed is this room
+    opensAt: Date | undefined;
+    closesAt: Date | undefined;
+    // Set by moderators: no new participants (other than moderators) may join
+    locked: boolean | undefined;
+    // Set by moderators: when kicked participants may rejoin (ms since the
+    // epoch), by participant identity
+    kickedUntil: { [identity: string]: number } | undefined;
+    // Set by moderators: track kinds nobody else receives, by participant identity
+    mutedTracks: { [identity: string]: Array<VideoMutableTrackKind> } | undefined;
+    // Record sessions in this room (only possible for group and group-small rooms)
+    recordingEnabled: boolean | undefined;
+    // The composed recording of the room's most recent recorded session
+    recordingMediaURL: string | undefined;
+}>;
+export type VideoRoomParticipationT = Parse.Object<{
+    // Backend-only table (not part of clowdr-db-schema): one per connection to a Twilio room
+    conference: ConferenceT;
+    room: VideoRoomT;
+    // Ephemeral rooms are deleted when they end, so remember what it was called
+    roomName: string | undefined;
+    twilioRoomSid: string;
+    participantSid: string;
+    identity: string;
+    joinedAt: Date | undefined;
+    leftAt: Date | undefined;
+}>;
 
+export type VideoRoomRecordingStatus = "recording" | "enqueued" | "processing" | "completed" | "deleted" | "failed";
+export type VideoRoomRecordingT = Parse.Object<{
+    // Backend-only table (not part of clowdr-db-schema): one per recorded Twilio room
+    conference: ConferenceT;
+    room: VideoRoomT;
+    // Ephemeral rooms are deleted when they end, so remember what it was called
+    roomName: string;
+    twilioRoomSid: string;
+    compositionSid: string | undefined;
+    status: VideoRoomRecordingStatus;
+    mediaURL: string | undefined;
+}>;
+
+export const AuditLog: new () => AuditLogT = Parse.Object.extend("AuditLog");
 export const Conference: new () => ConferenceT = Parse.Object.extend("Conference");
 export const ConferenceConfig: new () => ConferenceConfigT = Parse.Object.extend("ConferenceConfiguration");
-export const Role: new (name: string, acl: Parse.ACL) => RoleT = Parse.Role.extend("_Role");
+export const ContentFeed: new () => ContentFeedT = Parse.Object.extend("ContentFeed");
+export const ModerationReport: new () => ModerationReportT = Parse.Object.extend("ModerationReport");
+export const ProgramSession: new () => ProgramSessionT = Parse.Object.extend("ProgramSession");
+// Unlike Parse.Role's, the subclass's constructor doesn't take a name and ACL
+export const Role: new () => RoleT = Parse.Role.extend("_Role");
 export const TextChat: new () => TextChatT = Parse.Object.extend("TextChat");
+export const TextChatMessage: new () => TextChatMessageT = Parse.Object.extend("TextChatMessage");
 export const User: new () => UserT = Parse.User.extend();
 export const UserProfile: new () => UserProfileT = Parse.Object.extend("UserProfile");
 export const VideoRoom: new () => VideoRoomT = Parse.Object.extend("VideoRoom");
+export const VideoRoomParticipation: new () => VideoRoomParticipationT = Parse.Object.extend("VideoRoomParticipation");
+export const VideoRoomRecording: new () => VideoRoomRecordingT = Parse.Object.extend("VideoRoomRecording");
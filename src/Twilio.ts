@@ -1,44 +1,72 @@
 import Twilio from 'twilio';
-import { ClowdrConfig } from './Config';
+import { Request } from 'express';
+import { ClowdrConfig, getConfig, getConferenceIdsByConfigValue } from './Config';
 import assert from "assert";
-import { getUserProfileByID } from './ParseHelpers';
-import { VideoRoom } from './SchemaTypes';
 import Parse from "parse/node";
+import { FakeProvider } from './FakeProvider';
+import { createTwilioProvider, Provider, ProviderName } from './Provider';
+import { applyTwilioChatServiceSpec } from './TwilioServiceSpec';
+import { VideoRoom, VideoRoomRecording } from './SchemaTypes';
+import { migrateVideoRooms } from './VideoMigration';
 
 
-const twilioClientCache = new Map<string, Twilio.Twilio>();
-export async function getTwilioClient(confId: string, config: ClowdrConfig): Promise<Twilio.Twilio> {
-    let result = twilioClientCache.get(confId);
-    if (result) {
-        return result;
-    }
+// Along with the credentials each provider was built from, so that new
+// credentials (e.g. a rotated auth token) get a new client
+const providerCache = new Map<string, { accountSID: string, authToken: string, provider: Provider }>();
+// One fake per (pretend) account, so conferences sharing an account share state
+const fakeProviders = new Map<string, FakeProvider>();
 
+/**
+ * Gets the messaging/video provider for a conference - Twilio, unless the
+ * backend was started with `CLOWDR_PROVIDER=fake`.
+ */
+export async function getProvider(confId: string, config: ClowdrConfig): Promise<Provider> {
     const accountSID = config.TWILIO_ACCOUNT_SID;
     const authToken = config.TWILIO_AUTH_TOKEN;
 
-    assert(accountSID);
-    assert(authToken);
+    const cached = providerCache.get(confId);
+    if (cached && cached.accountSID === accountSID && cached.authToken === authToken) {
+        return cached.provider;
+    }
 
-    result = Twilio(accountSID, authToken);
-    twilioClientCache.set(confId, result);
+    if (cached) {
+        console.log(`Twilio credentials changed for conference ${confId} - rebuilding the client.`);
+    }
+    const result = getAccountProvider(config.PROVIDER, accountSID, authToken);
+    providerCache.set(confId, { accountSID, authToken, provider: result });
     return result;
 }
 
-// Copied from clowdr-web-app/backend/cloud/conference.js
-// - also update there when modifying.
-const TWILIO_WEBHOOK_EVENTS = [
-    "onUserAdded",
-    "onMemberAdded",
-    // Per-channel webhooks: "onMessageSent",
-    // Per-channel webhooks: "onMessageUpdated",
-    // Per-channel webhooks: "onMessageRemoved",
-    // Per-channel webhooks: "onMediaMessageSent",
-    // Per-channel webhooks: "onChannelUpdated",
-    // Per-channel webhooks: "onChannelDestroyed",
-];
+/**
+ * Gets a provider for an account directly - for when there's no conference
+ * configuration for it yet (e.g. while provisioning one).
+ */
+export function getAccountProvider(providerName: ProviderName, accountSID: string, authToken: string): Provider {
+    assert(accountSID);
+
+    if (providerName === "fake") {
+        let fake = fakeProviders.get(accountSID);
+        if (!fake) {
+            fake = new FakeProvider(accountSID);
+            fakeProviders.set(accountSID, fake);
+        }
+        return fake;
+    }
+
+    assert(authToken);
+    return createTwilioProvider(accountSID, authToken);
+}
+
+/**
+ * Forgets the conference's provider, so the next `getProvider` builds a new
+ * one. (Fake providers keep their state.)
+ */
+export function invalidateProvider(confId: string) {
+    providerCache.delete(confId);
+}
 
 export async function configureTwilio(confId: string, config: ClowdrConfig) {
-    const twilioClient = await getTwilioClient(confId, config);
+    const provider = await getProvider(confId, config);
 
     if (config.SHOULD_CONFIGURE_TWILIO) {
         console.log(`Attempting to configure Twilio for conference ${confId}...`);
@@ -61,28 +89,259 @@ Post Webhook URL present: ${!!preWebhookURL}
             `);
         }
 
-        // Note: A partial reconfiguration - we need a better way to keep this in sync
-        //       with the conference creation in the parse-server backend (see conference.js).
-        const chatService = twilioClient.chat.services(chatSID);
-        await chatService.update({
-            preWebhookUrl: preWebhookURL,
-            postWebhookUrl: postWebhookURL,
-            webhookFilters: TWILIO_WEBHOOK_EVENTS,
-        }).then(service => console.log(`Updated Twilio Chat Service: ${service.friendlyName}`));
-
-        // End all existing video rooms (since we can't update their status callback urls)
-        const twilioRooms = await twilioClient.video.rooms.list();
-        for (const twilioRoom of twilioRooms) {
-            const twilioRoomSid = twilioRoom.sid;
-            const parseRoomsQ = new Parse.Query(VideoRoom);
-            parseRoomsQ.equalTo("twilioID", twilioRoomSid);
-            await parseRoomsQ.map(async parseRoom => {
-                await parseRoom.save({ twilioID: "" }, { useMasterKey: true });
-            }, { useMasterKey: true });
-            await twilioRoom.update({ status: "completed" });
+        const chatService = provider.chat.services(chatSID);
+        const drift = await applyTwilioChatServiceSpec(chatService, config, true);
+        if (drift.length > 0) {
+            console.log(`Reconfigured Twilio Chat Service ${chatSID}. Drift found:\n  ${drift.join("\n  ")}`);
         }
+        else {
+            console.log(`Twilio Chat Service ${chatSID} already matches the spec.`);
+        }
+
+        // Only rooms still reporting to an old status callback URL need attention
+        await migrateVideoRooms(confId, config, provider);
     }
     else {
         console.log("Skipping configuring Twilio.");
+
+        if (config.TWILIO_CHAT_SERVICE_SID) {
+            const chatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+            const drift = await applyTwilioChatServiceSpec(chatService, config, false);
+            if (drift.length > 0) {
+                console.warn(`Twilio Chat Service ${config.TWILIO_CHAT_SERVICE_SID} has drifted from the spec:\n  ${drift.join("\n  ")}`);
+            }
+        }
+    }
+}
+
+export type TwilioWebhookContext = {
+    confId: string;
+    config: ClowdrConfig;
+    /** The URL Twilio signed the request for, i.e. where it sends our webhooks */
+    url: string;
+};
+
+/**
+ * The form fields of a chat webhook that we read. Which are present depends
+ * on the event, so check before relying on one.
+ */
+export type TwilioChatWebhookBody = {
+    EventType?: string;
+    AccountSid?: string;
+    InstanceSid?: string;
+    ChannelSid?: string;
+    FriendlyName?: string;
+    Identity?: string;
+    RoleSid?: string;
+    MessageSid?: string;
+    Index?: string;
+    From?: string;
+    Body?: string;
+    Attributes?: string;
+    DateCreated?: string;
+    MediaSid?: string;
+    MediaFilename?: string;
+    MediaContentType?: string;
+    MediaSize?: string;
+};
+
+/**
+ * The form fields of a video room or composition status callback that we
+ * read. Which are present depends on the event, so check before relying on
+ * one.
+ */
+export type TwilioVideoWebhookBody = {
+    StatusCallbackEvent?: string;
+    AccountSid?: string;
+    RoomSid?: string;
+    RoomName?: string;
+    ParticipantSid?: string;
+    ParticipantIdentity?: string;
+    Timestamp?: string;
+    CompositionSid?: string;
+    MediaUri?: string;
+};
+
+// Twilio stamps every webhook delivery with an idempotency token. We claim
+// each one as it arrives so a captured request can't be replayed - not even
+// while the original is still being processed.
+const TWILIO_WEBHOOK_REPLAY_WINDOW_MS = 1000 * 60 * 60 * 24;
+const claimedTwilioWebhooks = new Map<string, number>();
+
+function getTwilioWebhookToken(req: Request): string | undefined {
+    return req.header("I-Twilio-Idempotency-Token");
+}
+
+function claimTwilioWebhook(req: Request): boolean {
+    const token = getTwilioWebhookToken(req);
+    if (!token) {
+        return true;
+    }
+
+    const now = Date.now();
+    for (const [key, claimedAt] of claimedTwilioWebhooks) {
+        if (now - claimedAt > TWILIO_WEBHOOK_REPLAY_WINDOW_MS) {
+            claimedTwilioWebhooks.delete(key);
+        }
+    }
+    if (claimedTwilioWebhooks.has(token)) {
+        return false;
+    }
+    claimedTwilioWebhooks.set(token, now);
+    return true;
+}
+
+/**
+ * Lets Twilio's retry of a webhook we failed to process through.
+ */
+export function releaseTwilioWebhook(req: Request) {
+    const token = getTwilioWebhookToken(req);
+    if (token) {
+        claimedTwilioWebhooks.delete(token);
+    }
+}
+
+function getRequestURLs(req: Request): Array<string> {
+    const host = req.get("host");
+    return [
+        `https://${host}${req.originalUrl}`,
+        `http://${host}${req.originalUrl}`
+    ];
+}
+
+/**
+ * Finds every candidate conference whose Twilio account signed the webhook.
+ * Conferences can share an account, so the signature is only checked once
+ * per auth token.
+ */
+async function validateTwilioWebhook(
+    req: Request,
+    candidateConfIds: Array<string>,
+    getWebhookURLs: (config: ClowdrConfig) => Array<string | undefined>
+): Promise<Array<TwilioWebhookContext>> {
+    const signature = req.header("X-Twilio-Signature");
+    if (!signature) {
+        console.warn(`Rejecting Twilio webhook to ${req.originalUrl}: missing signature.`);
+        return [];
+    }
+
+    const configs = new Map<string, ClowdrConfig>();
+    const urlsByAuthToken = new Map<string, Array<string>>();
+    for (const confId of candidateConfIds) {
+        const config = await getConfig(confId);
+        if (!config.TWILIO_AUTH_TOKEN || config.TWILIO_ACCOUNT_SID !== req.body.AccountSid) {
+            continue;
+        }
+
+        configs.set(confId, config);
+        const urls = urlsByAuthToken.get(config.TWILIO_AUTH_TOKEN) ?? getRequestURLs(req);
+        for (const url of getWebhookURLs(config)) {
+            if (url && !urls.includes(url)) {
+                urls.unshift(url);
+            }
+        }
+        urlsByAuthToken.set(config.TWILIO_AUTH_TOKEN, urls);
+    }
+
+    const validatedURLs = new Map<string, string>();
+    for (const [authToken, urls] of urlsByAuthToken) {
+        const url = urls.find(x => Twilio.validateRequest(authToken, signature, x, req.body));
+        if (url) {
+            validatedURLs.set(authToken, url);
+        }
+    }
+
+    const contexts: Array<TwilioWebhookContext> = [];
+    for (const [confId, config] of configs) {
+        const url = validatedURLs.get(config.TWILIO_AUTH_TOKEN);
+        if (url) {
+            contexts.push({ confId, config, url });
+        }
+    }
+    if (contexts.length === 0) {
+        console.warn(`Rejecting Twilio webhook to ${req.originalUrl}: invalid signature.`);
+        return [];
+    }
+
+    if (!claimTwilioWebhook(req)) {
+        console.warn(`Rejecting Twilio webhook to ${req.originalUrl}: already processed.`);
+        return [];
+    }
+    return contexts;
+}
+
+/**
+ * Checks an incoming chat service webhook was signed by the Twilio account of
+ * the conference that owns the chat service it claims to come from.
+ */
+export async function validateTwilioChatWebhook(req: Request): Promise<TwilioWebhookContext | undefined> {
+    const instanceSID = req.body.InstanceSid;
+    if (!instanceSID || typeof instanceSID !== "string") {
+        return undefined;
+    }
+
+    const confIds = await getConferenceIdsByConfigValue("TWILIO_CHAT_SERVICE_SID", instanceSID);
+    const contexts = await validateTwilioWebhook(req, confIds, config =>
+        config.SHOULD_CONFIGURE_TWILIO
+            ? [config.TWILIO_CHAT_PRE_WEBHOOK_URL, config.TWILIO_CHAT_POST_WEBHOOK_URL]
+            : []);
+    return contexts[0];
+}
+
+/**
+ * Works out which of the conferences sharing a Twilio account a video
+ * webhook is about, from the room (or composition) it names.
+ */
+async function findVideoWebhookContext(
+    body: TwilioVideoWebhookBody,
+    contexts: Array<TwilioWebhookContext>
+): Promise<TwilioWebhookContext> {
+    const conferences = contexts.map(x => new Parse.Object("Conference", { id: x.confId }) as any);
+    const queries: Array<Parse.Query> = [];
+    if (body.RoomSid) {
+        const roomQ = new Parse.Query(VideoRoom);
+        roomQ.containedIn("conference", conferences);
+        roomQ.equalTo("twilioID", body.RoomSid);
+        queries.push(roomQ);
+    }
+    // Ephemeral rooms are deleted when they end, but their recordings aren't
+    const recordingQ = new Parse.Query(VideoRoomRecording);
+    recordingQ.containedIn("conference", conferences);
+    if (body.CompositionSid) {
+        recordingQ.equalTo("compositionSid", body.CompositionSid);
+        queries.push(recordingQ);
+    }
+    else if (body.RoomSid) {
+        recordingQ.equalTo("twilioRoomSid", body.RoomSid);
+        queries.push(recordingQ);
+    }
+
+    for (const query of queries) {
+        const match = await query.first({ useMasterKey: true });
+        const context = match && contexts.find(x => x.confId === match.get("conference").id);
+        if (context) {
+            return context;
+        }
+    }
+
+    console.warn(`Unable to tell which conference Twilio room ${body.RoomSid} belongs to - assuming ${contexts[0].confId}.`);
+    return contexts[0];
+}
+
+/**
+ * Checks an incoming video room status callback (or composition status
+ * callback) was signed by the Twilio account of one of our conferences.
+ */
+export async function validateTwilioVideoWebhook(req: Request): Promise<TwilioWebhookContext | undefined> {
+    const accountSID = req.body.AccountSid;
+    if (!accountSID || typeof accountSID !== "string") {
+        return undefined;
+    }
+
+    const confIds = await getConferenceIdsByConfigValue("TWILIO_ACCOUNT_SID", accountSID);
+    const contexts = await validateTwilioWebhook(req, confIds, config => [config.TWILIO_VIDEO_WEBHOOK_URL, config.TWILIO_VIDEO_COMPOSITION_WEBHOOK_URL]);
+    if (contexts.length <= 1) {
+        return contexts[0];
     }
+    return findVideoWebhookContext(req.body, contexts);
 }
@@ -0,0 +1,242 @@
+import { ClowdrConfig } from "./Config";
+import {
+    ChatRoleInstance,
+    ChatServiceContext,
+    ChatServiceInstance,
+    ChatServiceUpdateOptions
+} from "./Provider";
+
+// The single description of how a conference's Twilio chat service should be
+// set up. Both `configureTwilio` and anything that looks roles up by name work
+// from this, so keep the role names here in sync with the webhook handlers.
+
+export type TwilioChatRoleName =
+    "service admin" |
+    "service user" |
+    "channel admin" |
+    "channel user" |
+    "announcements admin" |
+    "announcements user";
+
+type TwilioChatRoleSpec = {
+    type: "deployment" | "channel";
+    permissions: Array<string>;
+};
+
+// Where the permissions come from: the "service ..." and "channel ..." roles
+// have exactly the permissions Twilio gives its default roles of the same
+// names on a new chat service - what the frontend was written against. Don't
+// add to them unless the frontend starts relying on something new. The
+// announcements roles are ours: admins get the channel admin permissions (to
+// post and moderate), everyone else can only read (or leave).
+
+const CHANNEL_USER_PERMISSIONS = [
+    "sendMessage",
+    "sendMediaMessage",
+    "leaveChannel",
+    "editOwnMessage",
+    "editOwnMessageAttributes",
+    "deleteOwnMessage",
+];
+
+const CHANNEL_ADMIN_PERMISSIONS = [
+    ...CHANNEL_USER_PERMISSIONS,
+    "editChannelName",
+    "editChannelAttributes",
+    "inviteMember",
+    "addMember",
+    "removeMember",
+    "editAnyMessage",
+    "editAnyMessageAttributes",
+    "deleteAnyMessage",
+];
+
+export const TWILIO_CHAT_SERVICE_SPEC = {
+    reachabilityEnabled: true,
+    readStatusEnabled: true,
+    webhookMethod: "POST",
+    webhookFilters: [
+        "onUserAdded",
+        "onMemberAdded",
+    ],
+    // Set per-channel when a channel switches to mirrored mode
+    channelMirroringWebhookFilters: [
+        "onMessageSent",
+        "onMessageUpdated",
+        "onMessageRemoved",
+        "onMediaMessageSent",
+        "onChannelUpdated",
+        "onChannelDestroyed",
+    ],
+    roles: {
+        "service admin": {
+            type: "deployment",
+            permissions: [
+                "createChannel",
+                "joinChannel",
+                "destroyChannel",
+                "inviteMember",
+                "removeMember",
+                "editChannelName",
+                "editChannelAttributes",
+                "addMember",
+                "editAnyMessage",
+                "editAnyMessageAttributes",
+                "editAnyUserInfo",
+                "deleteAnyMessage",
+            ]
+        },
+        "service user": {
+            type: "deployment",
+            permissions: [
+                "createChannel",
+                "joinChannel",
+                "editOwnUserInfo",
+            ]
+        },
+        "channel admin": {
+            type: "channel",
+            permissions: CHANNEL_ADMIN_PERMISSIONS
+        },
+        "channel user": {
+            type: "channel",
+            permissions: CHANNEL_USER_PERMISSIONS
+        },
+        "announcements admin": {
+            type: "channel",
+            permissions: CHANNEL_ADMIN_PERMISSIONS
+        },
+        "announcements user": {
+            type: "channel",
+            permissions: [
+                "leaveChannel",
+            ]
+        },
+    } as { [K in TwilioChatRoleName]: TwilioChatRoleSpec },
+    defaultServiceRole: "service user" as TwilioChatRoleName,
+    defaultChannelRole: "channel user" as TwilioChatRoleName,
+    defaultChannelCreatorRole: "channel admin" as TwilioChatRoleName,
+};
+
+type ChatServiceDefaultRoleKey =
+    "defaultServiceRoleSid" |
+    "defaultChannelRoleSid" |
+    "defaultChannelCreatorRoleSid";
+
+function sameSet(a: Array<string>, b: Array<string>): boolean {
+    return a.length === b.length && a.every(x => b.includes(x));
+}
+
+/**
+ * Lists the service's roles, first creating any that the spec requires but
+ * which are missing (e.g. because someone deleted them in the console).
+ */
+export async function ensureTwilioChatRoles(chatService: ChatServiceContext): Promise<Array<ChatRoleInstance>> {
+    const roles = await chatService.roles.list();
+    for (const [friendlyName, spec] of Object.entries(TWILIO_CHAT_SERVICE_SPEC.roles)) {
+        if (!roles.some(x => x.friendlyName === friendlyName)) {
+            console.warn(`Twilio chat role '${friendlyName}' is missing - creating it.`);
+            roles.push(await chatService.roles.create({
+                friendlyName,
+                type: spec.type,
+                permission: spec.permissions
+            }));
+        }
+    }
+    return roles;
+}
+
+/**
+ * Compares the live chat service with the spec and (if `apply` is set) fixes
+ * any differences. Safe to run repeatedly: nothing is changed when the
+ * service already matches.
+ *
+ * @returns A description of each difference found
+ */
+export async function applyTwilioChatServiceSpec(
+    chatService: ChatServiceContext,
+    config: ClowdrConfig,
+    apply: boolean
+): Promise<Array<string>> {
+    const drift: Array<string> = [];
+
+    // Roles
+    const roles = await chatService.roles.list();
+    const roleSids = new Map<string, string>();
+    for (const [friendlyName, spec] of Object.entries(TWILIO_CHAT_SERVICE_SPEC.roles)) {
+        const role = roles.find(x => x.friendlyName === friendlyName);
+        if (!role) {
+            drift.push(`Role '${friendlyName}' is missing.`);
+            if (apply) {
+                const newRole = await chatService.roles.create({
+                    friendlyName,
+                    type: spec.type,
+                    permission: spec.permissions
+                });
+                roleSids.set(friendlyName, newRole.sid);
+            }
+            continue;
+        }
+
+        roleSids.set(friendlyName, role.sid);
+        if (role.type !== spec.type) {
+            // Twilio can't change a role's type - needs fixing by hand
+            drift.push(`Role '${friendlyName}' has type '${role.type}', expected '${spec.type}'. Not fixable automatically.`);
+        }
+        else if (!sameSet(role.permissions, spec.permissions)) {
+            drift.push(`Role '${friendlyName}' permissions differ: [${role.permissions.join(", ")}] vs [${spec.permissions.join(", ")}].`);
+            if (apply) {
+                await role.update({ permission: spec.permissions });
+            }
+        }
+    }
+
+    // Service settings
+    const service: ChatServiceInstance = await chatService.fetch();
+    const update: ChatServiceUpdateOptions = {};
+    if (service.reachabilityEnabled !== TWILIO_CHAT_SERVICE_SPEC.reachabilityEnabled) {
+        drift.push(`Reachability enabled is ${service.reachabilityEnabled}.`);
+        update.reachabilityEnabled = TWILIO_CHAT_SERVICE_SPEC.reachabilityEnabled;
+    }
+    if (service.readStatusEnabled !== TWILIO_CHAT_SERVICE_SPEC.readStatusEnabled) {
+        drift.push(`Read status enabled is ${service.readStatusEnabled}.`);
+        update.readStatusEnabled = TWILIO_CHAT_SERVICE_SPEC.readStatusEnabled;
+    }
+    if (service.webhookMethod !== TWILIO_CHAT_SERVICE_SPEC.webhookMethod) {
+        drift.push(`Webhook method is ${service.webhookMethod}.`);
+        update.webhookMethod = TWILIO_CHAT_SERVICE_SPEC.webhookMethod;
+    }
+    if (!sameSet(service.webhookFilters ?? [], TWILIO_CHAT_SERVICE_SPEC.webhookFilters)) {
+        drift.push(`Webhook filters are [${(service.webhookFilters ?? []).join(", ")}].`);
+        update.webhookFilters = TWILIO_CHAT_SERVICE_SPEC.webhookFilters;
+    }
+    if (config.SHOULD_CONFIGURE_TWILIO) {
+        if (service.preWebhookUrl !== config.TWILIO_CHAT_PRE_WEBHOOK_URL) {
+            drift.push(`Pre-webhook URL is ${service.preWebhookUrl}.`);
+            update.preWebhookUrl = config.TWILIO_CHAT_PRE_WEBHOOK_URL;
+        }
+        if (service.postWebhookUrl !== config.TWILIO_CHAT_POST_WEBHOOK_URL) {
+            drift.push(`Post-webhook URL is ${service.postWebhookUrl}.`);
+            update.postWebhookUrl = config.TWILIO_CHAT_POST_WEBHOOK_URL;
+        }
+    }
+
+    const defaultRoles: Array<[ChatServiceDefaultRoleKey, TwilioChatRoleName]> = [
+        ["defaultServiceRoleSid", TWILIO_CHAT_SERVICE_SPEC.defaultServiceRole],
+        ["defaultChannelRoleSid", TWILIO_CHAT_SERVICE_SPEC.defaultChannelRole],
+        ["defaultChannelCreatorRoleSid", TWILIO_CHAT_SERVICE_SPEC.defaultChannelCreatorRole],
+    ];
+    for (const [key, roleName] of defaultRoles) {
+        const expectedSid = roleSids.get(roleName);
+        if (expectedSid && service[key] !== expectedSid) {
+            drift.push(`${key} is not '${roleName}'.`);
+            update[key] = expectedSid;
+        }
+    }
+
+    if (apply && Object.keys(update).length > 0) {
+        await chatService.update(update);
+    }
+
+    return drift;
+}
@@ -1,17 +1,32 @@
 import { Request, Response, NextFunction } from 'express';
 
-import { ConferenceT, Role, VideoRoom, VideoRoomT } from './SchemaTypes';
-
-import { generateVideoToken } from "./tokens";
+import {
+    ConferenceT,
+    Role,
+    TextChat,
+    TextChatT,
+    UserProfileT,
+    UserT,
+    VideoRoom,
+    VideoRoomMode,
+    VideoRoomT
+} from './SchemaTypes';
+
+import { decodeToken, generateVideoToken, isTokenDueForRefresh } from "./tokens";
 
 import { callWithRetry, handleRequestIntro } from './RequestHelpers';
 
 import Parse from "parse/node";
-import Twilio from "twilio";
 import assert from "assert";
-import { ClowdrConfig } from './Config';
-import { RoomInstance } from 'twilio/lib/rest/video/v1/room';
-import { isUserInRoles } from './Roles';
+import { ClowdrConfig, getTokenTTL } from './Config';
+import { getOrCreateRole, isUserInRoles } from './Roles';
+import { getProvider } from './Twilio';
+import { Provider, VideoRoomInstance } from './Provider';
+import { getRoomAvailability, RoomAvailability } from './VideoSchedule';
+import { getUserProfileByID } from './ParseHelpers';
+import { isRecordableMode, noteRoomRecorded, requestComposition } from './VideoRecording';
+import { getRequestOrigin, recordAuditLog } from './AuditLog';
+import { closeParticipations, serializeForRoom } from './VideoParticipants';
 
 function generateTwilioRoomName(room: VideoRoomT) {
     return room.get("name").substr(0, 128);
@@ -23,6 +38,42 @@ export async function getRoom(roomId: string, conf: ConferenceT, sessionToken?:
     return uq.get(roomId, sessionToken ? { sessionToken } : { useMasterKey: true });
 }
 
+function sendRoomUnavailable(res: Response, availability: RoomAvailability) {
+    res.status(403);
+    res.send(availability.status === "not-open-yet"
+        ? { status: "This room is not open yet.", opensAt: availability.opensAt }
+        : { status: "This room has closed." });
+}
+
+/**
+ * Why moderators have stopped the user (re)joining the room, if they have.
+ */
+function getModeratorRefusal(room: VideoRoomT, identity: string): string | undefined {
+    if (room.get("locked")) {
+        return "This room is locked.";
+    }
+    const kickedUntil = room.get("kickedUntil")?.[identity];
+    if (kickedUntil && kickedUntil > Date.now()) {
+        return "You have been removed from this room.";
+    }
+    return undefined;
+}
+
+/**
+ * The room's kicks that haven't run out yet, as a new object to change and
+ * save back to `kickedUntil`.
+ */
+export function getCurrentKicks(room: VideoRoomT): { [identity: string]: number } {
+    const now = Date.now();
+    const kickedUntil: { [identity: string]: number } = {};
+    for (const [identity, until] of Object.entries(room.get("kickedUntil") ?? {})) {
+        if (until > now) {
+            kickedUntil[identity] = until;
+        }
+    }
+    return kickedUntil;
+}
+
 export async function handleGenerateFreshToken(req: Request, res: Response, next: NextFunction) {
     try {
         const requestContext = await handleRequestIntro(req, res, next);
@@ -63,39 +114,124 @@ export async function handleGenerateFreshToken(req: Request, res: Response, next
 
         console.log(`${new Date().toUTCString()} [/video/token]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Room: '${roomId}'`);
 
-        let twilioRoomId = room.get("twilioID");
-        if (!twilioRoomId) {
-            // Create the room in Twilio
+        const provider = await getProvider(conf.id, config);
+        const isModerator = await isUserInRoles(sessionObj.get("user").id, conf.id, ["admin", "manager"]);
 
-            const accountSID = config.TWILIO_ACCOUNT_SID;
-            const accountAuth = config.TWILIO_AUTH_TOKEN;
-            const twilioClient = Twilio(accountSID, accountAuth);
+        const availability = await getRoomAvailability(room, new Date(), isModerator);
+        if (availability.status !== "open") {
+            sendRoomUnavailable(res, availability);
+            return;
+        }
 
-            let twilioRoom: RoomInstance;
-            try {
-                twilioRoom = await createTwilioRoom(room, config, twilioClient);
-            } catch (err) {
-                // If an error ocurred making the Twilio room, someone else might have updated it.
-                try {
-                    twilioRoom = await twilioClient.video.rooms(generateTwilioRoomName(room)).fetch();
-                }
-                catch (innerErr) {
-                    console.error(`Error creating Twilio room: ${err}`);
-                    res.status(500);
-                    res.send({ status: "Could not create or get Twilio room." });
-                    return;
-                }
-            }
+        const refusal = isModerator ? undefined : getModeratorRefusal(room, identity);
+        if (refusal) {
+            res.status(403);
+            res.send({ status: refusal });
+            return;
+        }
 
-            twilioRoomId = twilioRoom.sid;
-            room.set("twilioID", twilioRoomId);
-            await room.save(null, { useMasterKey: true });
+        if (!isModerator && await isRoomFull(room, provider, identity)) {
+            const overflowRoom = await getOrCreateOverflowRoom(room);
+            res.status(409);
+            res.send({
+                status: "Room is full.",
+                overflowRoom: overflowRoom?.id
+            });
+            return;
+        }
+
+        let twilioRoomId: string;
+        try {
+            twilioRoomId = await ensureTwilioRoom(room, config, provider);
+        }
+        catch (err) {
+            console.error(`Error creating Twilio room: ${err}`);
+            res.status(500);
+            res.send({ status: "Could not create or get Twilio room." });
+            return;
         }
 
         assert(twilioRoomId);
 
-        // TODO: Put Twilio token TTL (time-to-live) into configuration in database
-        const expiryDistanceSeconds = 3600 * 4;
+        const expiryDistanceSeconds = getTokenTTL(config, "video");
+        const accessToken = generateVideoToken(config, identity, twilioRoomId, expiryDistanceSeconds);
+        res.set('Content-Type', 'application/json');
+        res.send(JSON.stringify({
+            token: accessToken.toJwt(),
+            identity,
+            twilioRoomId,
+            roomName: generateTwilioRoomName(room),
+            expiry: new Date().getTime() + (expiryDistanceSeconds * 1000)
+        }));
+    } catch (err) {
+        next(err);
+    }
+}
+
+/**
+ * Issues a fresh video token for the same room, in exchange for one that is
+ * about to expire. Never creates a Twilio room - if the room has ended the
+ * client must go through /video/token again. Like /video/token, it's refused
+ * once the room has closed, been locked or the user has been kicked from it.
+ *
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - token: the video token being replaced
+ *
+ * Response body: as for /video/token
+ */
+export async function handleRefreshToken(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { sessionToken, sessionObj, conf, config, userProfile } = requestContext;
+
+        const oldToken = typeof req.body.token === "string" ? decodeToken(config, req.body.token) : undefined;
+        if (!oldToken || !oldToken.videoRoom || oldToken.identity !== userProfile.id) {
+            res.status(400);
+            res.send({ status: "Invalid or missing token" });
+            return;
+        }
+        if (!isTokenDueForRefresh(oldToken)) {
+            res.status(400);
+            res.send({ status: "Token is not due for refresh" });
+            return;
+        }
+
+        // The user must still have ACL rights to the room
+        const roomQ = new Parse.Query(VideoRoom);
+        roomQ.equalTo("conference", conf);
+        roomQ.equalTo("twilioID", oldToken.videoRoom);
+        const room = await roomQ.first({ sessionToken });
+        if (!room) {
+            res.status(400);
+            res.send({ status: "Invalid room." });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/video/token/refresh]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Room: '${room.id}'`);
+
+        // A scheduled room may have closed since the old token was issued
+        const isModerator = await isUserInRoles(sessionObj.get("user").id, conf.id, ["admin", "manager"]);
+        const availability = await getRoomAvailability(room, new Date(), isModerator);
+        if (availability.status !== "open") {
+            sendRoomUnavailable(res, availability);
+            return;
+        }
+
+        const identity = userProfile.id;
+        const refusal = isModerator ? undefined : getModeratorRefusal(room, identity);
+        if (refusal) {
+            res.status(403);
+            res.send({ status: refusal });
+            return;
+        }
+
+        const twilioRoomId = oldToken.videoRoom;
+        const expiryDistanceSeconds = getTokenTTL(config, "video");
         const accessToken = generateVideoToken(config, identity, twilioRoomId, expiryDistanceSeconds);
         res.set('Content-Type', 'application/json');
         res.send(JSON.stringify({
@@ -110,25 +246,500 @@ export async function handleGenerateFreshToken(req: Request, res: Response, next
     }
 }
 
-async function createTwilioRoom(room: VideoRoomT, config: ClowdrConfig, twilioClient: Twilio.Twilio) {
+/**
+ * Gets the room's live Twilio room, creating it if there isn't one.
+ *
+ * @returns The Twilio room's SID
+ */
+export async function ensureTwilioRoom(room: VideoRoomT, config: ClowdrConfig, provider: Provider): Promise<string> {
+    const existingID = room.get("twilioID");
+    if (existingID) {
+        return existingID;
+    }
+
+    let twilioRoom: VideoRoomInstance;
+    try {
+        twilioRoom = await createTwilioRoom(room, config, provider);
+    } catch (err) {
+        // If an error ocurred making the Twilio room, someone else might have updated it.
+        twilioRoom = await provider.video.rooms(generateTwilioRoomName(room)).fetch();
+    }
+
+    room.set("twilioID", twilioRoom.sid);
+    await room.save(null, { useMasterKey: true });
+    if (shouldRecordOnConnect(room)) {
+        await noteRoomRecorded(room, twilioRoom.sid);
+    }
+    return twilioRoom.sid;
+}
+
+/**
+ * Posts a message to the room's paired text chat, if it has one.
+ *
+ * @returns Whether there was a text chat to post to
+ */
+export async function notifyRoomParticipants(
+    room: VideoRoomT,
+    config: ClowdrConfig,
+    provider: Provider,
+    body: string,
+    attributes: object
+): Promise<boolean> {
+    const textChat = room.get("textChat") as TextChatT | undefined;
+    if (!textChat) {
+        return false;
+    }
+
+    await textChat.fetch({ useMasterKey: true });
+    await provider.chat
+        .services(config.TWILIO_CHAT_SERVICE_SID)
+        .channels(textChat.get("twilioID"))
+        .messages.create({
+            body,
+            attributes: JSON.stringify(attributes)
+        });
+    return true;
+}
+
+function shouldRecordOnConnect(room: VideoRoomT): boolean {
+    return !!room.get("recordingEnabled") && isRecordableMode(room.get("mode"));
+}
+
+async function createTwilioRoom(room: VideoRoomT, config: ClowdrConfig, provider: Provider) {
     console.log(`Creating Twilio room for VideoRoom: ${room.id}`);
-    const result = await twilioClient.video.rooms.create({
-        type: "group",
+    const result = await provider.video.rooms.create({
+        type: room.get("mode") ?? "group",
         uniqueName: generateTwilioRoomName(room),
-        maxParticipants: room.get("capacity"),
-        statusCallback: config.TWILIO_VIDEO_WEBHOOK_URL
+        maxParticipants: getMaxParticipants(room),
+        statusCallback: config.TWILIO_VIDEO_WEBHOOK_URL,
+        recordParticipantsOnConnect: shouldRecordOnConnect(room)
     });
     console.log(`Twilio room created: ${result.sid}`);
     return result;
 }
 
-export async function handleDeleteVideoRoom(req: Request, res: Response, next: NextFunction) {
+/**
+ * Disconnects participants from the room's live Twilio room. Kicks everyone
+ * unless a specific identity (user profile id) is given.
+ */
+export async function kickParticipants(room: VideoRoomT, provider: Provider, identity?: string) {
+    const twilioRoomID = room.get("twilioID");
+    if (!twilioRoomID) {
+        return;
+    }
+
+    const participants = await provider.video.rooms(twilioRoomID).participants.list(
+        identity ? { identity, status: "connected" } : { status: "connected" }
+    );
+    await Promise.all(participants.map(async participant => {
+        try {
+            console.log(`Kick participant ${participant.identity} from ${twilioRoomID} (${generateTwilioRoomName(room)})`);
+            await participant.update({ status: "disconnected" });
+        }
+        catch (e) {
+            // Might have left the room in the interveaning time
+        }
+    }));
+}
+
+// Twilio's participant limits per room type
+const MAX_CAPACITY: { [K in VideoRoomMode]: number } = {
+    "group": 50,
+    "group-small": 4,
+    "peer-to-peer": 10
+};
+
+// Capacity is enforced when handing out tokens, so that moderators can still
+// join a full room. Twilio enforces a limit this many participants above it.
+const MODERATOR_ALLOWANCE = 2;
+
+function getMaxParticipants(room: VideoRoomT): number {
+    const max = MAX_CAPACITY[room.get("mode") ?? "group"];
+    const capacity = room.get("capacity");
+    return capacity ? Math.min(capacity + MODERATOR_ALLOWANCE, max) : max;
+}
+
+/**
+ * Whether the room's live Twilio room already has as many participants as the
+ * room's capacity allows. Someone reconnecting doesn't count against it.
+ */
+async function isRoomFull(room: VideoRoomT, provider: Provider, identity: string): Promise<boolean> {
+    const twilioRoomID = room.get("twilioID");
+    const capacity = room.get("capacity");
+    if (!twilioRoomID || !capacity) {
+        return false;
+    }
+
+    let participants;
+    try {
+        participants = await provider.video.rooms(twilioRoomID).participants.list({ status: "connected" });
+    }
+    catch (e) {
+        // The Twilio room has ended - a new one will be created
+        return false;
+    }
+    return participants.filter(x => x.identity !== identity).length >= capacity;
+}
+
+/**
+ * Finds the room's linked overflow room, creating (and linking) one if the
+ * room is set to overflow automatically.
+ */
+function getOrCreateOverflowRoom(room: VideoRoomT): Promise<VideoRoomT | undefined> {
+    // Everyone turned away at once should be sent to the same overflow room
+    return serializeForRoom(room.id, async () => {
+        // Someone ahead in the queue may have linked one already
+        await room.fetch({ useMasterKey: true });
+        return findOrCreateOverflowRoom(room);
+    });
+}
+
+async function findOrCreateOverflowRoom(room: VideoRoomT): Promise<VideoRoomT | undefined> {
+    const linked = room.get("overflowRoom");
+    if (linked) {
+        try {
+            return await linked.fetch({ useMasterKey: true });
+        }
+        catch (e) {
+            // Ephemeral overflow rooms are deleted once they empty
+            if (!e.toString().toLowerCase().includes("object not found")) {
+                throw e;
+            }
+        }
+    }
+
+    if (!room.get("autoOverflow")) {
+        return undefined;
+    }
+
+    const conf = room.get("conference") as ConferenceT;
+    const baseName = room.get("name").substr(0, 110);
+    let overflowRoom: VideoRoomT | undefined;
+    for (let i = 1; !overflowRoom; i++) {
+        const name = `${baseName} (overflow ${i})`;
+        const existingQ = new Parse.Query(VideoRoom);
+        existingQ.equalTo("conference", conf);
+        existingQ.equalTo("name", name);
+        if (await existingQ.first({ useMasterKey: true })) {
+            continue;
+        }
+
+        overflowRoom = new VideoRoom();
+        overflowRoom.set("conference", conf);
+        overflowRoom.set("name", name);
+        overflowRoom.set("isPrivate", room.get("isPrivate"));
+        overflowRoom.set("ephemeral", true);
+        overflowRoom.set("mode", room.get("mode"));
+        overflowRoom.set("creator", room.get("creator"));
+        overflowRoom.set("capacity", room.get("capacity"));
+        overflowRoom.set("autoOverflow", true);
+        overflowRoom.set("participants", []);
+        const acl = room.getACL();
+        if (acl) {
+            overflowRoom.setACL(acl);
+        }
+    }
+    await overflowRoom.save(null, { useMasterKey: true });
+    await room.save({ overflowRoom }, { useMasterKey: true });
+    console.log(`Created overflow room ${overflowRoom.id} (${overflowRoom.get("name")}) for ${room.id}`);
+    return overflowRoom;
+}
+
+async function createTextChatForRoom(
+    room: VideoRoomT,
+    conf: ConferenceT,
+    config: ClowdrConfig,
+    creator: UserProfileT,
+    acl: Parse.ACL
+): Promise<TextChatT> {
+    const provider = await getProvider(conf.id, config);
+    const chatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+    const isPrivate = room.get("isPrivate");
+    const channel = await chatService.channels.create({
+        friendlyName: room.get("name"),
+        type: isPrivate ? "private" : "public",
+        createdBy: creator.id,
+        attributes: JSON.stringify({
+            isDM: false,
+            isPrivate
+        })
+    });
+    if (isPrivate) {
+        await chatService.channels(channel.sid).members.create({ identity: creator.id });
+    }
+
+    const textChat = new TextChat();
+    textChat.set("conference", conf);
+    textChat.set("creator", creator);
+    textChat.set("name", room.get("name"));
+    textChat.set("twilioID", channel.sid);
+    textChat.set("mode", "ordinary");
+    textChat.set("isDM", false);
+    textChat.set("autoWatch", false);
+    textChat.set("mirrored", false);
+    textChat.setACL(acl);
+    return textChat.save(null, { useMasterKey: true });
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - name: room name
+ *  - visibility: "public" | "private"
+ *  - mode: (optional) "group" | "group-small" | "peer-to-peer", default "group-small"
+ *  - persistence: (optional) "ephemeral" | "persistent", default "ephemeral"
+ *  - capacity: (optional) max participants, default the mode's maximum
+ *  - textChat: (optional) true to also create a paired chat channel
+ *  - autoOverflow: (optional) true to open overflow rooms once this one is full
+ *  - opensAt, closesAt: (optional) when the room may be used - otherwise it
+ *    follows the program sessions it is the feed of (if any)
+ *  - recording: (optional) true to record the room's sessions (not possible
+ *    for peer-to-peer rooms)
+ *
+ * Response body:
+ *  - room: the new video room's id
+ *  - textChat: the paired text chat's id (if one was created)
+ *  or an error
+ */
+export async function handleNewVideoRoom(req: Request, res: Response, next: NextFunction) {
     try {
         const requestContext = await handleRequestIntro(req, res, next);
         if (!requestContext) {
             return;
         }
         const { sessionObj, conf, config, userProfile } = requestContext;
+        const user = sessionObj.get("user");
+
+        const name = req.body.name;
+        if (!name || typeof name !== "string" || name.length > 128) {
+            res.status(400);
+            res.send({ status: "Invalid or missing room name" });
+            return;
+        }
+
+        const visibility = req.body.visibility;
+        if (visibility !== "public" && visibility !== "private") {
+            res.status(400);
+            res.send({ status: "Invalid or missing visibility" });
+            return;
+        }
+
+        const mode: VideoRoomMode = req.body.mode ?? "group-small";
+        if (!Object.keys(MAX_CAPACITY).includes(mode)) {
+            res.status(400);
+            res.send({ status: "Invalid mode" });
+            return;
+        }
+
+        const persistence = req.body.persistence ?? "ephemeral";
+        if (persistence !== "ephemeral" && persistence !== "persistent") {
+            res.status(400);
+            res.send({ status: "Invalid persistence" });
+            return;
+        }
+
+        const capacity = req.body.capacity !== undefined ? parseInt(req.body.capacity, 10) : MAX_CAPACITY[mode];
+        if (isNaN(capacity) || capacity < 1 || capacity > MAX_CAPACITY[mode]) {
+            res.status(400);
+            res.send({ status: `Invalid capacity - ${mode} rooms allow between 1 and ${MAX_CAPACITY[mode]} participants` });
+            return;
+        }
+
+        const wantsTextChat = req.body.textChat === true || req.body.textChat === "true";
+        const autoOverflow = req.body.autoOverflow === true || req.body.autoOverflow === "true";
+        const recordingEnabled = req.body.recording === true || req.body.recording === "true";
+        if (recordingEnabled && !isRecordableMode(mode)) {
+            res.status(400);
+            res.send({ status: "Peer-to-peer rooms can't be recorded" });
+            return;
+        }
+
+        const opensAt = req.body.opensAt ? new Date(req.body.opensAt) : undefined;
+        const closesAt = req.body.closesAt ? new Date(req.body.closesAt) : undefined;
+        if ((opensAt && isNaN(opensAt.getTime()))
+            || (closesAt && isNaN(closesAt.getTime()))
+            || (opensAt && closesAt && opensAt.getTime() >= closesAt.getTime())) {
+            res.status(400);
+            res.send({ status: "Invalid opensAt or closesAt" });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/video/new]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Room: '${name}' (${visibility}, ${mode}, ${persistence}, ${capacity})`);
+
+        // Twilio room names must be unique
+        const existingQ = new Parse.Query(VideoRoom);
+        existingQ.equalTo("conference", conf);
+        existingQ.equalTo("name", name);
+        if (await existingQ.first({ useMasterKey: true })) {
+            res.status(400);
+            res.send({ status: "There is already a video room with this name (although it may be private, and you can't see it). Please either join the existing room or pick a new name." });
+            return;
+        }
+
+        const adminRole = await getOrCreateRole(conf, "admin");
+        const managerRole = await getOrCreateRole(conf, "manager");
+        const acl = new Parse.ACL();
+        acl.setPublicReadAccess(false);
+        acl.setPublicWriteAccess(false);
+        acl.setRoleReadAccess(adminRole, true);
+        acl.setRoleWriteAccess(adminRole, true);
+        acl.setRoleReadAccess(managerRole, true);
+        acl.setRoleWriteAccess(managerRole, true);
+        if (visibility === "private") {
+            acl.setReadAccess(user, true);
+        }
+        else {
+            acl.setRoleReadAccess(await getOrCreateRole(conf, "attendee"), true);
+        }
+
+        const room = new VideoRoom();
+        room.set("conference", conf);
+        room.set("name", name);
+        room.set("isPrivate", visibility === "private");
+        room.set("ephemeral", persistence === "ephemeral");
+        room.set("mode", mode);
+        room.set("creator", userProfile);
+        room.set("capacity", capacity);
+        room.set("autoOverflow", autoOverflow);
+        room.set("opensAt", opensAt);
+        room.set("closesAt", closesAt);
+        room.set("recordingEnabled", recordingEnabled);
+        room.set("participants", []);
+        room.setACL(acl);
+        await room.save(null, { useMasterKey: true });
+
+        let textChat: TextChatT | undefined;
+        if (wantsTextChat) {
+            try {
+                textChat = await createTextChatForRoom(room, conf, config, userProfile, acl);
+                await room.save({ textChat }, { useMasterKey: true });
+            }
+            catch (e) {
+                console.error(`Could not create text chat for video room ${room.id}`, e);
+                await room.destroy({ useMasterKey: true });
+                res.status(500);
+                res.send({ status: "Could not create text chat for room." });
+                return;
+            }
+        }
+
+        res.send({
+            room: room.id,
+            textChat: textChat?.id
+        });
+    } catch (err) {
+        next(err);
+    }
+}
+
+/**
+ * Removes the room's paired text chat, if it has one - both the Twilio
+ * channel and the TextChat.
+ */
+async function destroyRoomTextChat(room: VideoRoomT, config: ClowdrConfig, provider: Provider) {
+    const textChat = room.get("textChat") as TextChatT | undefined;
+    if (!textChat) {
+        return;
+    }
+
+    try {
+        await textChat.fetch({ useMasterKey: true });
+    }
+    catch (e) {
+        if (e?.toString().toLowerCase().includes("object not found")) {
+            // Already removed
+            return;
+        }
+        throw e;
+    }
+
+    const channelSid = textChat.get("twilioID");
+    if (channelSid) {
+        try {
+            await provider.chat.services(config.TWILIO_CHAT_SERVICE_SID).channels(channelSid).remove();
+        }
+        catch (e) {
+            if (e.status !== 404) {
+                throw e;
+            }
+        }
+    }
+    await textChat.destroy({ useMasterKey: true });
+}
+
+/**
+ * Updates Parse once a room's Twilio room has ended: persistent rooms forget
+ * the Twilio room, ephemeral rooms are removed entirely (along with their
+ * paired text chat).
+ */
+export async function onTwilioRoomEnded(room: VideoRoomT, config: ClowdrConfig) {
+    if (!room.get("ephemeral")) {
+        console.log(`Removing Twilio room ID for ${room.get("conference").id}:${room.get("name")}`)
+        room.set("twilioID", "");
+        await room.save({ participants: [] }, { useMasterKey: true });
+    } else {
+        const provider = await getProvider(room.get("conference").id, config);
+        await destroyRoomTextChat(room, config, provider);
+        await room.destroy({ useMasterKey: true });
+    }
+}
+
+/**
+ * Everything that has to happen when a Twilio room ends, however we found out
+ * (its room-ended webhook, a migration ending or watching it, or reconciling
+ * with Twilio): everyone still in it leaves, its recording (if any) is
+ * composed and Parse is updated (see `onTwilioRoomEnded`). Looks the room up
+ * if it isn't given.
+ */
+export async function processTwilioRoomEnded(
+    conf: ConferenceT,
+    config: ClowdrConfig,
+    twilioRoomSid: string,
+    endedAt: Date,
+    room?: VideoRoomT
+) {
+    if (!room) {
+        const roomQ = new Parse.Query(VideoRoom);
+        roomQ.equalTo("conference", conf);
+        roomQ.equalTo("twilioID", twilioRoomSid);
+        room = await roomQ.first({ useMasterKey: true });
+    }
+
+    await closeParticipations(twilioRoomSid, endedAt);
+    try {
+        await requestComposition(conf, config, twilioRoomSid);
+    }
+    catch (e) {
+        // The room must still be cleaned up
+        console.error(`Could not request composition of Twilio room ${twilioRoomSid}`, e);
+    }
+
+    if (room) {
+        await onTwilioRoomEnded(room, config);
+    } else {
+        console.warn(`Unable to destroy room ${twilioRoomSid} because it doesn't exist in Parse.`);
+    }
+}
+
+export async function destroyVideoRoom(room: VideoRoomT, config: ClowdrConfig) {
+    const provider = await getProvider(room.get("conference").id, config);
+    if (room.get("twilioID")) {
+        // First, kick all the room's participants.
+        await kickParticipants(room, provider);
+    }
+
+    await destroyRoomTextChat(room, config, provider);
+    await room.destroy({ useMasterKey: true });
+}
+
+export async function handleDeleteVideoRoom(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, config, userProfile } = requestContext;
         const roomId = req.body.room;
 
         console.log(`${new Date().toUTCString()} [/video/token]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Room: '${roomId}'`);
@@ -147,273 +758,185 @@ export async function handleDeleteVideoRoom(req: Request, res: Response, next: N
             return;
         }
 
-        if (!isUserInRoles(sessionObj.get("user").id, conf.id, ["admin", "manager"])) {
-            res.status(403);
-            res.send({ status: "Permission denied." });
+        await destroyVideoRoom(room, config);
+        await recordAuditLog(conf, userProfile, "video:room:delete", room.id, {}, {
+            origin: getRequestOrigin(req),
+            before: describeRoomForAudit(room)
+        });
+        res.send({ status: "OK" });
+    } catch (err) {
+        next(err);
+    }
+}
+
+function describeRoomForAudit(room: VideoRoomT): object {
+    return {
+        name: room.get("name"),
+        mode: room.get("mode"),
+        isPrivate: room.get("isPrivate"),
+        ephemeral: room.get("ephemeral"),
+        creator: room.get("creator")?.id,
+        twilioID: room.get("twilioID") || undefined,
+        participants: room.get("participants")
+    };
+}
+
+function getAllowedUserIds(acl: Parse.ACL): Array<string> {
+    return Object.keys(acl.permissionsById).filter(id => !id.startsWith("role:") && id !== "*" && acl.getReadAccess(id));
+}
+
+function parseProfileIds(value: unknown): Array<string> | undefined {
+    if (value === undefined) {
+        return [];
+    }
+    if (!Array.isArray(value) || !value.every((x: unknown): x is string => typeof x === "string")) {
+        return undefined;
+    }
+    return value;
+}
+
+/**
+ * Changes who may access a private video room (and its paired text chat).
+ * Removed users are kicked from the live room, and refused new tokens for it
+ * until any they already have would expire. If nobody is left with access,
+ * the room is destroyed.
+ *
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - room: video room id
+ *  - add: (optional) user profile ids to grant access
+ *  - remove: (optional) user profile ids to revoke access
+ *
+ * Response body:
+ *  - status: "OK"
+ *  - destroyed: true if the room was destroyed
+ *  or an error
+ */
+export async function handleUpdateVideoRoomACL(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleRequestIntro(req, res, next);
+        if (!requestContext) {
             return;
         }
+        const { conf, config, userProfile } = requestContext;
+        const roomId = req.body.room;
 
-        const twilioRoomID = room.get("twilioID");
-        if (twilioRoomID) {
-            // First, kick all the room's participants.
+        if (!roomId) {
+            res.status(400);
+            res.send({ status: "Missing room id." });
+            return;
+        }
 
-            const accountSID = config.TWILIO_ACCOUNT_SID;
-            const accountAuth = config.TWILIO_AUTH_TOKEN;
-            const twilioClient = Twilio(accountSID, accountAuth);
+        const toAdd = parseProfileIds(req.body.add);
+        const toRemove = parseProfileIds(req.body.remove);
+        if (!toAdd || !toRemove) {
+            res.status(400);
+            res.send({ status: "Invalid list of user profiles." });
+            return;
+        }
 
-            const participants = await twilioClient.video.rooms(twilioRoomID).participants.list();
-            await Promise.all(participants.map(async participant => {
+        let room;
+        try {
+            room = await getRoom(roomId, conf);
+        }
+        catch (e) {
+            room = undefined;
+        }
+        if (!room || !room.get("isPrivate")) {
+            res.status(400);
+            res.send({ status: "Invalid room." });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/video/acl]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Room: '${roomId}', Add: [${toAdd.join(", ")}], Remove: [${toRemove.join(", ")}]`);
+
+        const profilesToAdd = await Promise.all(toAdd.map(id => getUserProfileByID(id, conf)));
+        const profilesToRemove = await Promise.all(toRemove.map(id => getUserProfileByID(id, conf)));
+        if (profilesToAdd.some(x => !x) || profilesToRemove.some(x => !x)) {
+            res.status(400);
+            res.send({ status: "Invalid user profile." });
+            return;
+        }
+
+        const acl = room.getACL() ?? new Parse.ACL();
+        const allowedBefore = getAllowedUserIds(acl);
+        const textChat = room.get("textChat") as TextChatT | undefined;
+        if (textChat) {
+            await textChat.fetch({ useMasterKey: true });
+        }
+        const chatACL = textChat?.getACL() ?? undefined;
+
+        const provider = await getProvider(conf.id, config);
+        const chatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+        const channelSid = textChat?.get("twilioID");
+
+        // Removed users' existing tokens can't be revoked, so stop them being
+        // refreshed (or replaced) for as long as they'd last
+        const kickedUntil = getCurrentKicks(room);
+        const removedUntil = Date.now() + getTokenTTL(config, "video") * 1000;
+        for (const id of toAdd) {
+            delete kickedUntil[id];
+        }
+        for (const id of toRemove) {
+            kickedUntil[id] = Math.max(kickedUntil[id] ?? 0, removedUntil);
+        }
+        await room.save({ kickedUntil }, { useMasterKey: true });
+
+        for (const profile of profilesToAdd as Array<UserProfileT>) {
+            const user = profile.get("user") as UserT;
+            acl.setReadAccess(user, true);
+            chatACL?.setReadAccess(user, true);
+            if (channelSid) {
                 try {
-                    console.log(`Kick participant ${participant.identity} from ${twilioRoomID} (${generateTwilioRoomName(room)})`);
-                    await participant.update({ status: "disconnected" });
+                    await chatService.channels(channelSid).members.create({ identity: profile.id });
                 }
                 catch (e) {
-                    // Might have left the room in the interveaning time
+                    // Already a member
                 }
-            }));
+            }
         }
 
-        await room.destroy({ useMasterKey: true });
+        for (const profile of profilesToRemove as Array<UserProfileT>) {
+            const user = profile.get("user") as UserT;
+            acl.setReadAccess(user, false);
+            chatACL?.setReadAccess(user, false);
+            if (channelSid) {
+                try {
+                    await chatService.channels(channelSid).members(profile.id).remove();
+                }
+                catch (e) {
+                    // Not a member
+                }
+            }
+            await kickParticipants(room, provider, profile.id);
+        }
+
+        const allowedAfter = getAllowedUserIds(acl);
+        if (allowedAfter.length === 0) {
+            await destroyVideoRoom(room, config);
+            await recordAuditLog(conf, userProfile, "video:room:delete", room.id, { reason: "No users left with access" }, {
+                origin: getRequestOrigin(req),
+                before: describeRoomForAudit(room)
+            });
+            res.send({ status: "OK", destroyed: true });
+            return;
+        }
+
+        room.setACL(acl);
+        await room.save(null, { useMasterKey: true });
+        if (textChat && chatACL) {
+            textChat.setACL(chatACL);
+            await textChat.save(null, { useMasterKey: true });
+        }
+        await recordAuditLog(conf, userProfile, "video:room:acl", room.id, { add: toAdd, remove: toRemove }, {
+            origin: getRequestOrigin(req),
+            before: { users: allowedBefore },
+            after: { users: allowedAfter }
+        });
+
         res.send({ status: "OK" });
     } catch (err) {
         next(err);
     }
 }
-
-
-//////// Old system code ////////
-
-// // var privilegeRoles = {
-// //     "createVideoRoom": null,
-// //     "chat": null,
-// //     "createVideoRoom-persistent": null,
-// //     "createVideoRoom-group": null,
-// //     "createVideoRoom-smallgroup": null,
-// //     "createVideoRoom-peer-to-peer": null,
-// //     'createVideoRoom-private': null,
-// //     "moderator": null
-// // };
-
-// export async function createNewRoom(req: Express.Request, res: Express.Response) {
-//     const token = req.body.identity;
-//     const confID = req.body.conference;
-
-//     console.log(`[Create new room]: Fetching conference ${confID}`);
-//     const conf = await getConference(confID);
-//     if (!conf) {
-//         console.warn('[Create new room]: Request did not include conference id.');
-//         return;
-//     }
-
-//     console.log("[Create new room]: Got conference")
-//     const roomName = req.body.room;
-
-//     const config = await getConfig(confID);
-//     const twilio = await getTwilioClient(confID, config);
-
-//     const visibility = req.body.visibility;
-//     let mode = req.body.mode;
-//     let persistence = req.body.emphemeral;
-
-//     const socialSpaceID = req.body.socialSpace;
-//     if (!mode)
-//         mode = "group-small";
-//     if (!persistence)
-//         persistence = "ephemeral";
-
-
-//     try {
-//         const query = new Parse.Query(Parse.Session);
-//         // console.log(token);
-//         query.include("user");
-//         query.equalTo("sessionToken", token);
-//         const session = await query.first({ useMasterKey: true });
-//         console.log("Create new room: Got user from session token")
-//         if (session) {
-//             const parseUser = session.get("user");
-//             // Validate has privileges for conference
-//             const accesToConf = new Parse.Query(ConferencePermission);
-//             accesToConf.equalTo("conference", conf);
-//             accesToConf.equalTo("action", privilegeRoles.createVideoRoom);
-//             console.log('--> ' + JSON.stringify(privilegeRoles.createVideoRoom));
-//             // TODO access-check for each option, too, but I don't have time now...
-//             const hasAccess = await accesToConf.first({ sessionToken: token });
-//             console.log('Permission to create video room? ' + hasAccess);
-//             if (hasAccess && hasAccess.id) {
-//                 // Try to create the room
-//                 try {
-//                     console.log("creating room with callback" + conf.config.TWILIO_CALLBACK_URL)
-//                     console.log("For " + parseUser.id + ": " + parseUser.get("displayname"))
-//                     console.log(roomName)
-//                     const maxParticipants = (mode === "peer-to-peer" ? 10 : (mode === "group-small" ? 4 : 10));
-//                     const twilioRoom = await twilio.video.rooms.create({
-//                         type: mode,
-//                         uniqueName: roomName,
-//                         maxParticipants,
-//                         statusCallback: conf.config.TWILIO_CALLBACK_URL
-//                     });
-//                     // Create a chat room too
-
-//                     const chat = twilio.chat.services(conf.config.TWILIO_CHAT_SERVICE_SID);
-
-
-//                     // Create a new room in the DB
-//                     const parseRoom = new BreakoutRoom();
-//                     parseRoom.set("title", roomName);
-//                     parseRoom.set("conference", conf);
-//                     parseRoom.set("twilioID", twilioRoom.sid);
-//                     parseRoom.set("isPrivate", visibility === "unlisted");
-//                     parseRoom.set("persistence", persistence);
-//                     parseRoom.set("mode", mode);
-//                     parseRoom.set("capacity", maxParticipants);
-//                     if (socialSpaceID) {
-//                         const socialSpace = new SocialSpace();
-//                         socialSpace.id = socialSpaceID;
-//                         parseRoom.set("socialSpace", socialSpace);
-//                     }
-//                     const modRole = await getOrCreateRole(conf.id, "moderator");
-
-//                     const acl = new Parse.ACL();
-//                     acl.setPublicReadAccess(false);
-//                     acl.setPublicWriteAccess(false);
-//                     acl.setRoleReadAccess(modRole, true);
-//                     if (visibility === "unlisted") {
-//                         acl.setReadAccess(parseUser.id, true);
-//                     }
-//                     else {
-//                         acl.setRoleReadAccess(await getOrCreateRole(conf.id, "conference"), true);
-//                     }
-//                     parseRoom.setACL(acl, { useMasterKey: true });
-//                     await parseRoom.save({}, { useMasterKey: true });
-//                     const attributes = {
-//                         category: "breakoutRoom",
-//                         roomID: parseRoom.id
-//                     }
-
-//                     const twilioChatRoom = await chat.channels.create({
-//                         friendlyName: roomName,
-//                         attributes: JSON.stringify(attributes),
-//                         type:
-//                             (visibility === "unlisted" ? "private" : "public")
-//                     });
-//                     if (visibility === "unlisted") {
-//                         // give this user access to the chat
-//                         const userProfile = await getUserProfile(parseUser.id, conf);
-//                         console.log("Creating chat room for " + roomName + " starting user " + userProfile.id)
-//                         await chat.channels(twilioChatRoom.sid).members.create({ identity: userProfile.id });
-//                         // Make sure that all moderators and admins have access to this room, too.
-//                         const modRole = await getOrCreateRole(conf.id, "moderator");
-//                         const userQuery = modRole.getUsers().query();
-//                         const profilesQuery = new Parse.Query(UserProfile);
-//                         profilesQuery.equalTo("conference", conf);
-//                         profilesQuery.matchesQuery("user", userQuery);
-//                         profilesQuery.find({ useMasterKey: true }).then((users) => {
-//                             for (const user of users) {
-//                                 chat.channels(twilioChatRoom.sid).members.create({ identity: user.id });
-//                             }
-//                         })
-//                     }
-//                     parseRoom.set("twilioChatID", twilioChatRoom.sid);
-//                     await parseRoom.save({}, { useMasterKey: true });
-//                     sidToRoom[twilioRoom.sid] = parseRoom;
-//                     conf.rooms.push(parseRoom);
-//                     return res.send({ status: "OK" });
-//                 } catch (err) {
-//                     console.error(err);
-//                     return res.send({
-//                         status: "error",
-//                         message: "There is already a video room with this name (although it may be private, and you can't see it). Please either join the existing room or pick a new name."
-//                     });
-//                 }
-//             } else {
-//                 return res.send({
-//                     status: "error",
-//                     message: "Sorry, you do not currently have access to create video rooms for " + conf.get("conferenceName")
-//                 });
-//             }
-
-//         }
-//     } catch (err) {
-//         console.error(err);
-//         return res.send({ status: "error", message: "Internal server error " });
-//     }
-//     return res.send({
-//         status: "error",
-//         message: "Could not find enrollment for this user on this conference, " + conf
-//     });
-// }
-
-
-// async function updateACL(req, res) {
-//     try {
-//         let identity = req.body.identity;
-//         const roomID = req.body.roomID;
-//         const conference = req.body.conference;
-//         const users = req.body.users;
-//         let conf = await getConference(conference);
-//         let userQ = new Parse.Query(Parse.Session);
-//         userQ.equalTo("sessionToken", identity);
-//         userQ.include(["user.displayname"]);
-//         let parseSession = await userQ.first({ useMasterKey: true });
-//         let parseUser = parseSession.get("user");
-//         //Check for roles...
-//         let roomQ = new Parse.Query("BreakoutRoom");
-//         roomQ.include("conversation");
-//         let room = await roomQ.get(roomID, { sessionToken: identity });
-//         if (!room) {
-//             return res.send({ status: 'error', message: "No such room" });
-//         }
-//         let usersWithAccessCurrently = Object.keys(room.getACL().permissionsById).filter(v => !v.startsWith("role"));
-
-//         let chat = conf.Twilio.chat.services(conf.config.TWILIO_CHAT_SERVICE_SID);
-
-//         let uq = new Parse.Query(Parse.User);
-//         let usersToRefresh = [];
-//         let promises = [];
-//         for (let uid of usersWithAccessCurrently) {
-//             let fauxUser = new Parse.User();
-//             fauxUser.id = uid;
-//             usersToRefresh.push(fauxUser);
-//             if (!users.includes(uid)) {
-//                 room.getACL().setReadAccess(uid, false);
-//                 let user = await uq.get(uid, { useMasterKey: true });
-//                 //find the profile for this user, since that's what we want to put into Twilio
-//                 let userProfile = await getUserProfile(uid, conf);
-//                 promises.push(removeFromCall(conf.Twilio, room.get("twilioID"), userProfile.id));
-//                 promises.push(chat.channels(room.get("twilioChatID")).members(userProfile.id).remove().catch(err => console.error(err)));
-//             }
-//         }
-//         for (let user of users) {
-//             if (!usersWithAccessCurrently.includes(user)) {
-
-//                 if (room.get("conversation"))
-//                     room.get("conversation").getACL().setReadAccess(user, true);
-//                 room.getACL().setReadAccess(user, true);
-//                 let userProfile = await getUserProfile(user, conf);
-//                 promises.push(chat.channels(room.get("twilioChatID")).members.create({ identity: userProfile.id }));
-//                 let fauxUser = new Parse.User();
-//                 fauxUser.id = user;
-//                 usersToRefresh.push(fauxUser);
-//             }
-//         }
-//         if (room.get("conversation")) {
-//             await room.get("conversation").save({}, { useMasterKey: true });
-//         }
-//         if (users.length === 0) {
-//             await room.destroy({ useMasterKey: true });
-//         } else {
-//             await room.save({}, { useMasterKey: true });
-//         }
-//         await Promise.all(promises);
-
-//         promises = [];
-//         for (let user of usersToRefresh) {
-//             promises.push(pushToUserStream(user, conf, "privateBreakoutRooms"));
-//         }
-//         await Promise.all(promises);
-//         res.send({ status: "OK" });
-//     } catch (err) {
-//         console.error(err);
-//         res.send({ status: "error", message: "Internal server error" });
-//     }
-// }
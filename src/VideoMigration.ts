@@ -0,0 +1,217 @@
+import Parse from "parse/node";
+
+import { ClowdrConfig } from "./Config";
+import { Provider, VideoRoomInstance } from "./Provider";
+import { ConferenceT, VideoRoom, VideoRoomT } from "./SchemaTypes";
+import { getSystemOrigin, tryRecordAuditLog } from "./AuditLog";
+import { notifyRoomParticipants, processTwilioRoomEnded } from "./Video";
+import { serializeForRoom } from "./VideoParticipants";
+
+// Twilio can't change a live room's status callback URL. When our webhook URL
+// changes (e.g. a new ngrok tunnel or deployment), rooms created before the
+// change keep reporting to the old URL. Rather than ending every call, we
+// migrate only those rooms, and only for the conference being configured.
+
+// How long participants are warned before a room is ended
+const MIGRATION_WARNING_MS = 1000 * 60 * 5;
+// How often to check rooms whose events we no longer receive
+const MIGRATION_POLL_INTERVAL_MS = 1000 * 60;
+// Longer setTimeout delays overflow and fire straight away
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Twilio rooms already being migrated (by SID). Twilio is reconfigured every
+// time a conference is reloaded, which mustn't start another watcher and set
+// of timers for the same room.
+const migratingRooms = new Set<string>();
+
+/**
+ * Calls `callback` at `at` (or straight away if that's passed), however far
+ * off it is - the timer is re-armed in chunks setTimeout can handle.
+ */
+function runAt(at: Date, callback: () => void) {
+    const remaining = at.getTime() - Date.now();
+    if (remaining > MAX_TIMEOUT_MS) {
+        setTimeout(() => runAt(at, callback), MAX_TIMEOUT_MS);
+    }
+    else {
+        setTimeout(callback, Math.max(0, remaining));
+    }
+}
+
+async function warnParticipants(
+    room: VideoRoomT,
+    config: ClowdrConfig,
+    provider: Provider,
+    endAt: Date
+) {
+    const minutes = Math.max(1, Math.round((endAt.getTime() - Date.now()) / 60000));
+    const notified = await notifyRoomParticipants(
+        room,
+        config,
+        provider,
+        `This video room will restart for maintenance in ${minutes} minute${minutes === 1 ? "" : "s"}. You can rejoin straight away afterwards.`,
+        {
+            videoRoomMigration: {
+                room: room.id,
+                endAt: endAt.getTime()
+            }
+        }
+    );
+    if (!notified) {
+        console.warn(`[Video migration]: ${room.id} has no text chat - participants can't be warned.`);
+    }
+}
+
+async function endTwilioRoom(room: VideoRoomT, config: ClowdrConfig, twilioRoom: VideoRoomInstance) {
+    console.log(`[Video migration]: Ending ${twilioRoom.sid} for ${room.id} (${room.get("name")})`);
+    const conf = room.get("conference") as ConferenceT;
+    const participants = room.get("participants");
+    const ephemeral = room.get("ephemeral");
+    await twilioRoom.update({ status: "completed" });
+    // Its room-ended callback goes to the old URL, so won't reach us
+    await processTwilioRoomEnded(conf, config, twilioRoom.sid, new Date(), room);
+    await tryRecordAuditLog(conf, undefined, "video:room:end", room.id, {
+        reason: "Webhook URL changed"
+    }, {
+        origin: getSystemOrigin("video migration"),
+        before: { twilioID: twilioRoom.sid, participants },
+        after: ephemeral ? undefined : { twilioID: "", participants: [] }
+    });
+}
+
+/**
+ * Brings the room's participants into line with those Twilio says are
+ * connected - with atomic operations, as for participant callbacks.
+ */
+function syncParticipants(room: VideoRoomT, twilioRoomSid: string, identities: Array<string>): Promise<void> {
+    return serializeForRoom(twilioRoomSid, async () => {
+        const current: Array<string> = room.get("participants") ?? [];
+        const joined = identities.filter(x => !current.includes(x));
+        const left = current.filter(x => !identities.includes(x));
+        if (joined.length > 0) {
+            room.addAllUnique("participants", joined);
+            await room.save(null, { useMasterKey: true });
+        }
+        if (left.length > 0) {
+            room.removeAll("participants", left);
+            await room.save(null, { useMasterKey: true });
+        }
+    });
+}
+
+/**
+ * Keeps Parse up to date for a room whose status callbacks go elsewhere:
+ * syncs its participants and notices when it ends.
+ */
+function watchTwilioRoom(room: VideoRoomT, config: ClowdrConfig, provider: Provider, twilioRoomSid: string) {
+    const stopWatching = () => {
+        clearInterval(interval);
+        migratingRooms.delete(twilioRoomSid);
+    };
+    const interval = setInterval(async () => {
+        try {
+            await room.fetch({ useMasterKey: true });
+            if (room.get("twilioID") !== twilioRoomSid) {
+                stopWatching();
+                return;
+            }
+
+            const twilioRoom = await provider.video.rooms(twilioRoomSid).fetch();
+            if (twilioRoom.status !== "in-progress") {
+                stopWatching();
+                console.log(`[Video migration]: ${twilioRoomSid} for ${room.id} has drained.`);
+                await processTwilioRoomEnded(room.get("conference") as ConferenceT, config, twilioRoomSid, new Date(), room);
+                return;
+            }
+
+            const participants = await provider.video.rooms(twilioRoomSid).participants.list({ status: "connected" });
+            await syncParticipants(room, twilioRoomSid, participants.map(x => x.identity));
+        }
+        catch (e) {
+            if (e?.toString().toLowerCase().includes("object not found")) {
+                // The VideoRoom was deleted
+                stopWatching();
+                return;
+            }
+            console.error(`[Video migration]: Error watching ${twilioRoomSid} for ${room.id}`, e);
+        }
+    }, MIGRATION_POLL_INTERVAL_MS);
+}
+
+/**
+ * Deals with this conference's live video rooms that were created with a
+ * different status callback URL to the current `TWILIO_VIDEO_WEBHOOK_URL`.
+ */
+export async function migrateVideoRooms(confId: string, config: ClowdrConfig, provider: Provider) {
+    if (!config.SHOULD_CONFIGURE_TWILIO) {
+        return;
+    }
+
+    const roomsQ = new Parse.Query(VideoRoom);
+    roomsQ.equalTo("conference", new Parse.Object("Conference", { id: confId }) as any);
+    roomsQ.exists("twilioID");
+    roomsQ.notEqualTo("twilioID", "");
+    const rooms = await roomsQ.find({ useMasterKey: true });
+
+    const mode = config.TWILIO_VIDEO_MIGRATION_MODE;
+    const endAt
+        = mode === "scheduled" && config.TWILIO_VIDEO_MIGRATION_TIME
+            ? config.TWILIO_VIDEO_MIGRATION_TIME
+            : new Date(Date.now() + MIGRATION_WARNING_MS);
+
+    for (const room of rooms) {
+        const twilioRoomSid = room.get("twilioID") as string;
+        if (migratingRooms.has(twilioRoomSid)) {
+            continue;
+        }
+        try {
+            const twilioRoom = await provider.video.rooms(twilioRoomSid).fetch();
+            if (twilioRoom.status !== "in-progress") {
+                // Ended while we weren't listening
+                await processTwilioRoomEnded(room.get("conference") as ConferenceT, config, twilioRoomSid, new Date(), room);
+                continue;
+            }
+            if (twilioRoom.statusCallback === config.TWILIO_VIDEO_WEBHOOK_URL) {
+                continue;
+            }
+
+            console.log(`[Video migration]: ${twilioRoomSid} for ${room.id} (${room.get("name")}) reports to an old webhook URL - mode: ${mode}.`);
+            migratingRooms.add(twilioRoomSid);
+            watchTwilioRoom(room, config, provider, twilioRoomSid);
+
+            if (mode === "drain") {
+                continue;
+            }
+
+            // Warn now (or shortly before a scheduled end), then end the room
+            const warnAt = new Date(Math.max(Date.now(), endAt.getTime() - MIGRATION_WARNING_MS));
+            runAt(warnAt, async () => {
+                try {
+                    await warnParticipants(room, config, provider, endAt);
+                }
+                catch (e) {
+                    console.error(`[Video migration]: Could not warn participants of ${room.id}`, e);
+                }
+            });
+            runAt(endAt, async () => {
+                try {
+                    await room.fetch({ useMasterKey: true });
+                    if (room.get("twilioID") !== twilioRoomSid) {
+                        // Already drained
+                        return;
+                    }
+                    const latestTwilioRoom = await provider.video.rooms(twilioRoomSid).fetch();
+                    if (latestTwilioRoom.status === "in-progress") {
+                        await endTwilioRoom(room, config, latestTwilioRoom);
+                    }
+                }
+                catch (e) {
+                    console.error(`[Video migration]: Could not end ${twilioRoomSid} for ${room.id}`, e);
+                }
+            });
+        }
+        catch (e) {
+            console.error(`[Video migration]: Could not check ${twilioRoomSid} for ${room.id}`, e);
+        }
+    }
+}
@@ -0,0 +1,271 @@
+import Parse from "parse/node";
+import { Request, Response, NextFunction } from 'express';
+
+import { getRequestOrigin, recordAuditLog } from "./AuditLog";
+import { getUserProfileByID } from "./ParseHelpers";
+import { Provider, VideoSubscribeRule } from "./Provider";
+import { handleRequestIntro } from "./RequestHelpers";
+import { ConferenceT, UserProfileT, VideoMutableTrackKind, VideoRoom, VideoRoomT } from "./SchemaTypes";
+import { getProvider, TwilioVideoWebhookBody } from "./Twilio";
+import { getCurrentKicks, getRoom, kickParticipants } from "./Video";
+import { ClowdrConfig, getConfig } from "./Config";
+
+// Moderator actions inside live video rooms. Twilio can't make a client stop
+// publishing a track, so "muting" someone instead stops everyone else in the
+// room receiving it (via each participant's subscribe rules).
+
+const MUTABLE_TRACK_KINDS: Array<VideoMutableTrackKind> = ["audio", "video"];
+// How long someone kicked from a room is refused new tokens for it
+const KICK_DURATION_MS = 1000 * 60 * 15;
+
+type ModeratorRequestContext = {
+    conf: ConferenceT,
+    config: ClowdrConfig,
+    userProfile: UserProfileT,
+    room: VideoRoomT
+};
+
+/**
+ * Common checks for the endpoints below (once `authorize` has checked the
+ * caller is a moderator): a room in the conference.
+ */
+export async function handleModeratorRequestIntro(req: Request, res: Response, next: NextFunction): Promise<ModeratorRequestContext | undefined> {
+    const requestContext = await handleRequestIntro(req, res, next);
+    if (!requestContext) {
+        return undefined;
+    }
+    const { conf, config, userProfile } = requestContext;
+
+    const roomId = req.body.room;
+    if (!roomId || typeof roomId !== "string") {
+        res.status(400);
+        res.send({ status: "Missing room id." });
+        return undefined;
+    }
+
+    let room: VideoRoomT | undefined;
+    try {
+        room = await getRoom(roomId, conf);
+    }
+    catch (e) {
+        room = undefined;
+    }
+    if (!room) {
+        res.status(400);
+        res.send({ status: "Invalid room." });
+        return undefined;
+    }
+
+    return { conf, config, userProfile, room };
+}
+
+/**
+ * Sets the subscribe rules of the room's connected participants (or just one
+ * of them) so that nobody receives the tracks moderators have muted.
+ */
+async function applyMutedTracks(room: VideoRoomT, provider: Provider, onlyIdentity?: string) {
+    const twilioRoomID = room.get("twilioID");
+    if (!twilioRoomID) {
+        return;
+    }
+
+    const mutedTracks = room.get("mutedTracks") ?? {};
+    const participants = await provider.video.rooms(twilioRoomID).participants.list(
+        onlyIdentity ? { identity: onlyIdentity, status: "connected" } : { status: "connected" }
+    );
+    await Promise.all(participants.map(async participant => {
+        const rules: Array<VideoSubscribeRule> = [{ type: "include", all: true }];
+        for (const [publisher, kinds] of Object.entries(mutedTracks)) {
+            if (publisher !== participant.identity) {
+                rules.push(...kinds.map(kind => ({ type: "exclude" as const, publisher, kind })));
+            }
+        }
+
+        try {
+            await provider.video.rooms(twilioRoomID).participants(participant.sid).subscribeRules.update({ rules });
+        }
+        catch (e) {
+            // Might have left the room in the intervening time
+        }
+    }));
+}
+
+/**
+ * Called when someone joins a Twilio room, so they don't receive tracks that
+ * were muted before they arrived.
+ */
+export async function applyMutedTracksToNewParticipant(conf: ConferenceT, body: TwilioVideoWebhookBody) {
+    if (!body.RoomSid || !body.ParticipantIdentity) {
+        return;
+    }
+
+    const roomQ = new Parse.Query(VideoRoom);
+    roomQ.equalTo("conference", conf);
+    roomQ.equalTo("twilioID", body.RoomSid);
+    const room = await roomQ.first({ useMasterKey: true });
+    if (!room || Object.keys(room.get("mutedTracks") ?? {}).length === 0) {
+        return;
+    }
+
+    const config = await getConfig(conf.id);
+    const provider = await getProvider(conf.id, config);
+    await applyMutedTracks(room, provider, body.ParticipantIdentity);
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - room: video room id
+ *  - profile: id of the user profile to disconnect
+ *
+ * The participant is disconnected straight away and refused new tokens for
+ * the room for a while. Twilio doesn't let us revoke the token they already
+ * have though, so until it expires (see TWILIO_VIDEO_TOKEN_TTL) their client
+ * could still reconnect with it.
+ *
+ * Response body: { status: "OK" } or an error
+ */
+export async function handleKickParticipant(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleModeratorRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, config, userProfile, room } = requestContext;
+
+        const targetProfile = typeof req.body.profile === "string" ? await getUserProfileByID(req.body.profile, conf) : undefined;
+        if (!targetProfile) {
+            res.status(400);
+            res.send({ status: "Invalid profile." });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/video/kick]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Room: '${room.id}', Target: '${targetProfile.get("displayName")}' (${targetProfile.id})`);
+
+        const kickedUntil = getCurrentKicks(room);
+        kickedUntil[targetProfile.id] = Math.max(kickedUntil[targetProfile.id] ?? 0, Date.now() + KICK_DURATION_MS);
+        await room.save({ kickedUntil }, { useMasterKey: true });
+
+        const provider = await getProvider(conf.id, config);
+        await kickParticipants(room, provider, targetProfile.id);
+        await recordAuditLog(conf, userProfile, "video:participant:kick", room.id, {
+            profile: targetProfile.id,
+            until: new Date(kickedUntil[targetProfile.id]).toISOString()
+        }, {
+            origin: getRequestOrigin(req)
+        });
+
+        res.send({ status: "OK" });
+    } catch (err) {
+        next(err);
+    }
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - room: video room id
+ *  - locked: true to stop anyone but moderators joining, false to allow it again
+ *
+ * Locking doesn't disconnect anyone already in the room, but (other than
+ * moderators) they can't refresh their tokens, so can't rejoin once those
+ * expire.
+ *
+ * Response body: { status: "OK" } or an error
+ */
+export async function handleLockVideoRoom(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleModeratorRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, userProfile, room } = requestContext;
+
+        const locked = req.body.locked === true || req.body.locked === "true";
+        if (!locked && req.body.locked !== false && req.body.locked !== "false") {
+            res.status(400);
+            res.send({ status: "Invalid or missing locked" });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/video/lock]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Room: '${room.id}', Locked: ${locked}`);
+
+        const wasLocked = !!room.get("locked");
+        await room.save({ locked }, { useMasterKey: true });
+        await recordAuditLog(conf, userProfile, locked ? "video:room:lock" : "video:room:unlock", room.id, {}, {
+            origin: getRequestOrigin(req),
+            before: { locked: wasLocked },
+            after: { locked }
+        });
+
+        res.send({ status: "OK" });
+    } catch (err) {
+        next(err);
+    }
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - room: video room id
+ *  - profile: id of the user profile to (un)mute
+ *  - tracks: the kinds of track nobody else should receive - any of "audio"
+ *    and "video". An empty list unmutes the participant.
+ *
+ * Mutes last until lifted, including across sessions of a persistent room.
+ *
+ * Response body: { status: "OK" } or an error
+ */
+export async function handleMuteParticipant(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleModeratorRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, config, userProfile, room } = requestContext;
+
+        const targetProfile = typeof req.body.profile === "string" ? await getUserProfileByID(req.body.profile, conf) : undefined;
+        if (!targetProfile) {
+            res.status(400);
+            res.send({ status: "Invalid profile." });
+            return;
+        }
+
+        const tracks = req.body.tracks;
+        if (!Array.isArray(tracks) || !tracks.every(x => MUTABLE_TRACK_KINDS.includes(x))) {
+            res.status(400);
+            res.send({ status: "Invalid tracks - expected a list of 'audio' and/or 'video'" });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/video/mute]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Room: '${room.id}', Target: '${targetProfile.get("displayName")}' (${targetProfile.id}), Tracks: [${tracks.join(", ")}]`);
+
+        const previousMutedTracks = room.get("mutedTracks") ?? {};
+        const mutedTracks = { ...previousMutedTracks };
+        if (tracks.length > 0) {
+            mutedTracks[targetProfile.id] = Array.from(new Set<VideoMutableTrackKind>(tracks));
+        }
+        else {
+            delete mutedTracks[targetProfile.id];
+        }
+        await room.save({ mutedTracks }, { useMasterKey: true });
+
+        const provider = await getProvider(conf.id, config);
+        await applyMutedTracks(room, provider);
+        await recordAuditLog(conf, userProfile, tracks.length > 0 ? "video:participant:mute" : "video:participant:unmute", room.id, {
+            profile: targetProfile.id,
+            tracks
+        }, {
+            origin: getRequestOrigin(req),
+            before: { mutedTracks: previousMutedTracks },
+            after: { mutedTracks }
+        });
+
+        res.send({ status: "OK" });
+    } catch (err) {
+        next(err);
+    }
+}
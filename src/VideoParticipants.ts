@@ -0,0 +1,153 @@
+import Parse from "parse/node";
+import { ConferenceT, VideoRoom, VideoRoomParticipation, VideoRoomParticipationT, VideoRoomT } from "./SchemaTypes";
+import { TwilioVideoWebhookBody } from "./Twilio";
+
+// Twilio sends participant callbacks concurrently, retries them and doesn't
+// guarantee their order. Each connection (participant SID) gets its own
+// VideoRoomParticipation recording when it joined and left, and the room's
+// `participants` list is only ever changed with atomic operations, so
+// simultaneous joins and leaves can't overwrite each other.
+
+const roomQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `fn` after anything already being processed for the same room (within
+ * this process). Rooms are keyed by their Twilio room SID or VideoRoom id.
+ */
+export function serializeForRoom<T>(roomKey: string, fn: () => Promise<T>): Promise<T> {
+    const previous = roomQueues.get(roomKey) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(fn);
+    roomQueues.set(roomKey, next);
+
+    const cleanUp = () => {
+        if (roomQueues.get(roomKey) === next) {
+            roomQueues.delete(roomKey);
+        }
+    };
+    next.then(cleanUp, cleanUp);
+    return next;
+}
+
+export function getEventTime(body: TwilioVideoWebhookBody): Date {
+    const timestamp = body.Timestamp ? new Date(body.Timestamp) : undefined;
+    return timestamp && !isNaN(timestamp.getTime()) ? timestamp : new Date();
+}
+
+async function getRoomByTwilioID(conf: ConferenceT, twilioRoomSid: string): Promise<VideoRoomT | undefined> {
+    const roomQ = new Parse.Query(VideoRoom);
+    roomQ.equalTo("conference", conf);
+    roomQ.equalTo("twilioID", twilioRoomSid);
+    return roomQ.first({ useMasterKey: true });
+}
+
+async function getOrCreateParticipation(
+    conf: ConferenceT,
+    room: VideoRoomT,
+    twilioRoomSid: string,
+    participantSid: string,
+    identity: string
+): Promise<VideoRoomParticipationT> {
+    const q = new Parse.Query(VideoRoomParticipation);
+    q.equalTo("twilioRoomSid", twilioRoomSid);
+    q.equalTo("participantSid", participantSid);
+    const existing = await q.first({ useMasterKey: true });
+    if (existing) {
+        return existing;
+    }
+
+    const participation = new VideoRoomParticipation();
+    participation.set("conference", conf);
+    participation.set("room", room);
+    participation.set("roomName", room.get("name"));
+    participation.set("twilioRoomSid", twilioRoomSid);
+    participation.set("participantSid", participantSid);
+    participation.set("identity", identity);
+    // Master key only
+    participation.setACL(new Parse.ACL());
+    return participation;
+}
+
+/**
+ * Handles a `participant-connected` status callback.
+ */
+export function onParticipantConnected(conf: ConferenceT, body: TwilioVideoWebhookBody): Promise<void> {
+    const twilioRoomSid = body.RoomSid;
+    const participantSid = body.ParticipantSid;
+    const identity = body.ParticipantIdentity;
+    if (!twilioRoomSid || !participantSid || !identity) {
+        console.warn(`Ignoring participant-connected for ${twilioRoomSid}: no room SID, participant SID or identity.`);
+        return Promise.resolve();
+    }
+
+    return serializeForRoom(twilioRoomSid, async () => {
+        const room = await getRoomByTwilioID(conf, twilioRoomSid);
+        if (!room) {
+            return;
+        }
+
+        const participation = await getOrCreateParticipation(conf, room, twilioRoomSid, participantSid, identity);
+        if (!participation.get("joinedAt")) {
+            participation.set("joinedAt", getEventTime(body));
+            await participation.save(null, { useMasterKey: true });
+        }
+
+        // A retried or late connected callback must not resurrect someone who has since left
+        if (!participation.get("leftAt")) {
+            room.addUnique("participants", identity);
+            await room.save(null, { useMasterKey: true });
+        }
+    });
+}
+
+/**
+ * Handles a `participant-disconnected` status callback.
+ */
+export function onParticipantDisconnected(conf: ConferenceT, body: TwilioVideoWebhookBody): Promise<void> {
+    const twilioRoomSid = body.RoomSid;
+    const participantSid = body.ParticipantSid;
+    const identity = body.ParticipantIdentity;
+    if (!twilioRoomSid || !participantSid || !identity) {
+        console.warn(`Ignoring participant-disconnected for ${twilioRoomSid}: no room SID, participant SID or identity.`);
+        return Promise.resolve();
+    }
+
+    return serializeForRoom(twilioRoomSid, async () => {
+        const room = await getRoomByTwilioID(conf, twilioRoomSid);
+        if (!room) {
+            return;
+        }
+
+        const participation = await getOrCreateParticipation(conf, room, twilioRoomSid, participantSid, identity);
+        if (!participation.get("leftAt")) {
+            participation.set("leftAt", getEventTime(body));
+            await participation.save(null, { useMasterKey: true });
+        }
+
+        // The same person may still be connected another way (e.g. they
+        // rejoined before Twilio told us the old connection dropped)
+        const stillConnectedQ = new Parse.Query(VideoRoomParticipation);
+        stillConnectedQ.equalTo("twilioRoomSid", twilioRoomSid);
+        stillConnectedQ.equalTo("identity", identity);
+        stillConnectedQ.notEqualTo("participantSid", participantSid);
+        stillConnectedQ.doesNotExist("leftAt");
+        if (await stillConnectedQ.count({ useMasterKey: true }) === 0) {
+            room.remove("participants", identity);
+            await room.save(null, { useMasterKey: true });
+        }
+    });
+}
+
+/**
+ * Marks everyone still recorded as connected to a Twilio room as having left
+ * it - used when the room ends, as Twilio may not send their disconnections.
+ */
+export function closeParticipations(twilioRoomSid: string, at: Date): Promise<void> {
+    return serializeForRoom(twilioRoomSid, async () => {
+        const openQ = new Parse.Query(VideoRoomParticipation);
+        openQ.equalTo("twilioRoomSid", twilioRoomSid);
+        openQ.doesNotExist("leftAt");
+        await openQ.each(async participation => {
+            await participation.save({ leftAt: at }, { useMasterKey: true });
+        }, { useMasterKey: true });
+    });
+}
@@ -0,0 +1,233 @@
+import Parse from "parse/node";
+import { Request, Response, NextFunction } from 'express';
+
+import { getRequestOrigin, recordAuditLog } from "./AuditLog";
+import { ClowdrConfig } from "./Config";
+import { Provider } from "./Provider";
+import {
+    ConferenceT,
+    VideoRoom,
+    VideoRoomMode,
+    VideoRoomRecording,
+    VideoRoomRecordingStatus,
+    VideoRoomRecordingT,
+    VideoRoomT
+} from "./SchemaTypes";
+import { getProvider, TwilioVideoWebhookBody } from "./Twilio";
+import { handleModeratorRequestIntro } from "./VideoModeration";
+
+// Recording happens per Twilio room: each one that was recorded at any point
+// gets a VideoRoomRecording. Once the Twilio room ends we ask Twilio to
+// compose its recorded tracks into a single video, and the composition status
+// callbacks tell us when the media is ready.
+
+const RECORDABLE_MODES: Array<VideoRoomMode> = ["group", "group-small"];
+
+const TWILIO_VIDEO_API_URL = "https://video.twilio.com";
+
+// Later statuses win, so callbacks arriving out of order can't regress one
+const STATUS_ORDER: Array<VideoRoomRecordingStatus> = ["recording", "enqueued", "processing"];
+// Once a recording reaches one of these it never changes again - e.g. a late
+// failure callback mustn't hide media that's already available
+const TERMINAL_STATUSES: Array<VideoRoomRecordingStatus> = ["completed", "failed", "deleted"];
+
+function isStatusUpdate(from: VideoRoomRecordingStatus, to: VideoRoomRecordingStatus): boolean {
+    if (TERMINAL_STATUSES.includes(from)) {
+        return false;
+    }
+    return TERMINAL_STATUSES.includes(to) || STATUS_ORDER.indexOf(to) > STATUS_ORDER.indexOf(from);
+}
+
+export function isRecordableMode(mode: VideoRoomMode | undefined): boolean {
+    return RECORDABLE_MODES.includes(mode ?? "group");
+}
+
+/**
+ * Notes that the given Twilio room of `room` is (or has been) recorded, so a
+ * composition is requested when it ends.
+ */
+export async function noteRoomRecorded(room: VideoRoomT, twilioRoomSid: string): Promise<VideoRoomRecordingT> {
+    const q = new Parse.Query(VideoRoomRecording);
+    q.equalTo("twilioRoomSid", twilioRoomSid);
+    const existing = await q.first({ useMasterKey: true });
+    if (existing) {
+        return existing;
+    }
+
+    const recording = new VideoRoomRecording();
+    recording.set("conference", room.get("conference") as ConferenceT);
+    recording.set("room", room);
+    recording.set("roomName", room.get("name"));
+    recording.set("twilioRoomSid", twilioRoomSid);
+    recording.set("status", "recording");
+    // Master key only
+    recording.setACL(new Parse.ACL());
+    await recording.save(null, { useMasterKey: true });
+    return recording;
+}
+
+/**
+ * Starts or stops recording the room's live Twilio room (if it has one) to
+ * match its `recordingEnabled` setting.
+ */
+async function applyRecordingSetting(room: VideoRoomT, provider: Provider) {
+    const twilioRoomID = room.get("twilioID");
+    if (!twilioRoomID) {
+        return;
+    }
+
+    const enabled = !!room.get("recordingEnabled");
+    await provider.video.rooms(twilioRoomID).recordingRules.update({
+        rules: [{ type: enabled ? "include" : "exclude", all: true }]
+    });
+    if (enabled) {
+        await noteRoomRecorded(room, twilioRoomID);
+    }
+}
+
+/**
+ * Called when a Twilio room ends: asks Twilio to compose whatever was
+ * recorded in it. Does nothing if the room was never recorded.
+ */
+export async function requestComposition(conf: ConferenceT, config: ClowdrConfig, twilioRoomSid: string) {
+    const q = new Parse.Query(VideoRoomRecording);
+    q.equalTo("conference", conf);
+    q.equalTo("twilioRoomSid", twilioRoomSid);
+    const recording = await q.first({ useMasterKey: true });
+    if (!recording || recording.get("compositionSid")) {
+        return;
+    }
+
+    console.log(`Requesting composition of Twilio room ${twilioRoomSid} (${recording.get("roomName")})`);
+    const provider = await getProvider(conf.id, config);
+    try {
+        const composition = await provider.video.compositions.create({
+            roomSid: twilioRoomSid,
+            audioSources: ["*"],
+            videoLayout: {
+                grid: {
+                    video_sources: ["*"]
+                }
+            },
+            format: "mp4",
+            statusCallback: config.TWILIO_VIDEO_COMPOSITION_WEBHOOK_URL
+        });
+        recording.set("compositionSid", composition.sid);
+        recording.set("status", "enqueued");
+    }
+    catch (e) {
+        console.error(`Could not request composition of Twilio room ${twilioRoomSid}`, e);
+        recording.set("status", "failed");
+    }
+    await recording.save(null, { useMasterKey: true });
+}
+
+function getCompositionStatus(event: string): VideoRoomRecordingStatus | undefined {
+    switch (event) {
+        case "composition-enqueued":
+            return "enqueued";
+        case "composition-started":
+        case "composition-progress":
+            return "processing";
+        case "composition-available":
+            return "completed";
+        case "composition-failed":
+            return "failed";
+        case "composition-deleted":
+            return "deleted";
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Handles a composition status callback. Once the composition is available,
+ * its media URL is stored on the recording and on the room (if the room still
+ * exists).
+ */
+export async function onCompositionStatusCallback(conf: ConferenceT, body: TwilioVideoWebhookBody) {
+    const status = getCompositionStatus(body.StatusCallbackEvent ?? "");
+    if (!status || !body.CompositionSid) {
+        return;
+    }
+
+    const q = new Parse.Query(VideoRoomRecording);
+    q.equalTo("conference", conf);
+    q.equalTo("compositionSid", body.CompositionSid);
+    const recording = await q.first({ useMasterKey: true });
+    if (!recording) {
+        console.warn(`Ignoring ${body.StatusCallbackEvent} for unknown composition ${body.CompositionSid}`);
+        return;
+    }
+
+    if (!isStatusUpdate(recording.get("status"), status)) {
+        return;
+    }
+
+    recording.set("status", status);
+    if (status === "completed" && body.MediaUri) {
+        const mediaURL = new URL(body.MediaUri, TWILIO_VIDEO_API_URL).toString();
+        recording.set("mediaURL", mediaURL);
+
+        const roomQ = new Parse.Query(VideoRoom);
+        roomQ.equalTo("conference", conf);
+        const room = await roomQ.get(recording.get("room").id, { useMasterKey: true }).catch(() => undefined);
+        if (room) {
+            await room.save({ recordingMediaURL: mediaURL }, { useMasterKey: true });
+        }
+    }
+    await recording.save(null, { useMasterKey: true });
+}
+
+/**
+ * Request body:
+ *  - identity: session token
+ *  - conference: conference id
+ *  - room: video room id
+ *  - recording: true to record the room's sessions, false to stop
+ *
+ * Takes effect immediately if the room is live, and for all later sessions
+ * of the room.
+ *
+ * Response body: { status: "OK" } or an error
+ */
+export async function handleSetVideoRecording(req: Request, res: Response, next: NextFunction) {
+    try {
+        const requestContext = await handleModeratorRequestIntro(req, res, next);
+        if (!requestContext) {
+            return;
+        }
+        const { conf, config, userProfile, room } = requestContext;
+
+        const recording = req.body.recording === true || req.body.recording === "true";
+        if (!recording && req.body.recording !== false && req.body.recording !== "false") {
+            res.status(400);
+            res.send({ status: "Invalid or missing recording" });
+            return;
+        }
+
+        if (!isRecordableMode(room.get("mode"))) {
+            res.status(400);
+            res.send({ status: "Peer-to-peer rooms can't be recorded." });
+            return;
+        }
+
+        console.log(`${new Date().toUTCString()} [/video/recording]: User: '${userProfile.get("displayName")}' (${userProfile.id}), Conference: '${conf.get("name")}' (${conf.id}), Room: '${room.id}', Recording: ${recording}`);
+
+        const wasRecording = !!room.get("recordingEnabled");
+        await room.save({ recordingEnabled: recording }, { useMasterKey: true });
+        const provider = await getProvider(conf.id, config);
+        await applyRecordingSetting(room, provider);
+        await recordAuditLog(conf, userProfile, recording ? "video:recording:start" : "video:recording:stop", room.id, {
+            twilioRoom: room.get("twilioID") || undefined
+        }, {
+            origin: getRequestOrigin(req),
+            before: { recordingEnabled: wasRecording },
+            after: { recordingEnabled: recording }
+        });
+
+        res.send({ status: "OK" });
+    } catch (err) {
+        next(err);
+    }
+}
@@ -0,0 +1,233 @@
+import Parse from "parse/node";
+
+import { getSystemOrigin, tryRecordAuditLog } from "./AuditLog";
+import { getConfig } from "./Config";
+import { ConferenceT, ContentFeed, ProgramSession, VideoRoom, VideoRoomT } from "./SchemaTypes";
+import { getProvider } from "./Twilio";
+import { ensureTwilioRoom, kickParticipants, notifyRoomParticipants, processTwilioRoomEnded } from "./Video";
+
+// Rooms can be limited to set times: either explicitly (`opensAt`/`closesAt`
+// on the VideoRoom) or by the program - a room that is the feed of one or more
+// program sessions is open during those sessions. Rooms with neither are
+// always open.
+
+// How early the Twilio room is created (moderators may join from then)
+const PRECREATE_MS = 1000 * 60 * 5;
+// How long before closing participants are warned
+const CLOSE_WARNING_MS = 1000 * 60 * 5;
+const SCHEDULER_INTERVAL_MS = 1000 * 60;
+// How far back to look for sessions whose rooms may still need closing
+const SCHEDULER_LOOKBACK_MS = 1000 * 60 * 60;
+
+type RoomWindow = { opensAt: Date, closesAt: Date };
+
+export type RoomAvailability =
+    { status: "open" } |
+    { status: "not-open-yet", opensAt: Date } |
+    { status: "closed" };
+
+/**
+ * The times the room is open, in order, with back-to-back or overlapping
+ * sessions merged. Undefined if the room isn't scheduled at all.
+ */
+async function getRoomSchedule(room: VideoRoomT): Promise<Array<RoomWindow> | undefined> {
+    const opensAt = room.get("opensAt");
+    const closesAt = room.get("closesAt");
+    if (opensAt || closesAt) {
+        return [{
+            opensAt: opensAt ?? new Date(0),
+            closesAt: closesAt ?? new Date(8640000000000000)
+        }];
+    }
+
+    const feedsQ = new Parse.Query(ContentFeed);
+    feedsQ.equalTo("videoRoom", room);
+    const sessionsQ = new Parse.Query(ProgramSession);
+    sessionsQ.matchesQuery("feed", feedsQ);
+    sessionsQ.ascending("startTime");
+    sessionsQ.limit(1000);
+    const sessions = await sessionsQ.find({ useMasterKey: true });
+    if (sessions.length === 0) {
+        return undefined;
+    }
+
+    const windows: Array<RoomWindow> = [];
+    for (const session of sessions) {
+        const window = { opensAt: session.get("startTime"), closesAt: session.get("endTime") };
+        const last = windows[windows.length - 1];
+        if (last && window.opensAt.getTime() <= last.closesAt.getTime()) {
+            if (window.closesAt.getTime() > last.closesAt.getTime()) {
+                last.closesAt = window.closesAt;
+            }
+        }
+        else {
+            windows.push(window);
+        }
+    }
+    return windows;
+}
+
+function getCurrentOrNextWindow(schedule: Array<RoomWindow>, now: Date): RoomWindow | undefined {
+    return schedule.find(x => x.closesAt.getTime() > now.getTime());
+}
+
+/**
+ * Whether someone may join the room now. Moderators may join from when the
+ * Twilio room is created, a few minutes before it opens.
+ */
+export async function getRoomAvailability(room: VideoRoomT, now: Date, isModerator: boolean): Promise<RoomAvailability> {
+    const schedule = await getRoomSchedule(room);
+    if (!schedule) {
+        return { status: "open" };
+    }
+
+    const window = getCurrentOrNextWindow(schedule, now);
+    if (!window) {
+        return { status: "closed" };
+    }
+
+    const earliest = window.opensAt.getTime() - (isModerator ? PRECREATE_MS : 0);
+    if (now.getTime() < earliest) {
+        return { status: "not-open-yet", opensAt: window.opensAt };
+    }
+    return { status: "open" };
+}
+
+async function getScheduledRooms(conf: ConferenceT, now: Date): Promise<Array<VideoRoomT>> {
+    const opensQ = new Parse.Query(VideoRoom);
+    opensQ.exists("opensAt");
+    const closesQ = new Parse.Query(VideoRoom);
+    closesQ.exists("closesAt");
+    const explicitQ = Parse.Query.or(opensQ, closesQ);
+    explicitQ.equalTo("conference", conf);
+    const rooms = await explicitQ.find({ useMasterKey: true });
+
+    const sessionsQ = new Parse.Query(ProgramSession);
+    sessionsQ.equalTo("conference", conf);
+    sessionsQ.lessThanOrEqualTo("startTime", new Date(now.getTime() + PRECREATE_MS));
+    sessionsQ.greaterThanOrEqualTo("endTime", new Date(now.getTime() - SCHEDULER_LOOKBACK_MS));
+    sessionsQ.exists("feed");
+    sessionsQ.limit(1000);
+    const sessions = await sessionsQ.find({ useMasterKey: true });
+    const feedIds = Array.from(new Set(sessions.map(x => x.get("feed").id)));
+    if (feedIds.length === 0) {
+        return rooms;
+    }
+
+    const feedsQ = new Parse.Query(ContentFeed);
+    feedsQ.containedIn("objectId", feedIds);
+    feedsQ.exists("videoRoom");
+    feedsQ.include("videoRoom");
+    feedsQ.limit(feedIds.length);
+    const feeds = await feedsQ.find({ useMasterKey: true });
+    for (const feed of feeds) {
+        const room = feed.get("videoRoom") as VideoRoomT;
+        if (!rooms.some(x => x.id === room.id)) {
+            rooms.push(room);
+        }
+    }
+    return rooms;
+}
+
+// Rooms (and close times) we've already warned about, until they close
+const warnedRooms = new Map<string, Date>();
+
+function forgetClosedWarnings(now: Date) {
+    warnedRooms.forEach((closesAt, warningKey) => {
+        if (closesAt.getTime() <= now.getTime()) {
+            warnedRooms.delete(warningKey);
+        }
+    });
+}
+
+async function updateScheduledRoom(conf: ConferenceT, room: VideoRoomT, now: Date) {
+    const schedule = await getRoomSchedule(room);
+    if (!schedule) {
+        return;
+    }
+
+    const config = await getConfig(conf.id);
+    const provider = await getProvider(conf.id, config);
+    const window = getCurrentOrNextWindow(schedule, now);
+    const isOpen = !!window && now.getTime() >= window.opensAt.getTime() - PRECREATE_MS;
+
+    if (isOpen && window) {
+        if (!room.get("twilioID")) {
+            console.log(`[Schedule]: Opening ${room.id} (${room.get("name")}) ahead of ${window.opensAt.toUTCString()}`);
+            await ensureTwilioRoom(room, config, provider);
+        }
+
+        const warningKey = `${room.id}:${window.closesAt.getTime()}`;
+        if (now.getTime() >= window.closesAt.getTime() - CLOSE_WARNING_MS && !warnedRooms.has(warningKey)) {
+            warnedRooms.set(warningKey, window.closesAt);
+            const minutes = Math.max(1, Math.round((window.closesAt.getTime() - now.getTime()) / 60000));
+            await notifyRoomParticipants(
+                room,
+                config,
+                provider,
+                `This video room closes in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+                {
+                    videoRoomClosing: {
+                        room: room.id,
+                        closesAt: window.closesAt.getTime()
+                    }
+                }
+            );
+        }
+    }
+    else {
+        const twilioRoomID = room.get("twilioID");
+        if (twilioRoomID) {
+            console.log(`[Schedule]: Closing ${room.id} (${room.get("name")})`);
+            const participants = room.get("participants");
+            await kickParticipants(room, provider);
+            try {
+                await provider.video.rooms(twilioRoomID).update({ status: "completed" });
+            }
+            catch (e) {
+                // Already ended
+            }
+            await processTwilioRoomEnded(conf, config, twilioRoomID, new Date(), room);
+            await tryRecordAuditLog(conf, undefined, "video:room:end", room.id, {
+                reason: "Scheduled close"
+            }, {
+                origin: getSystemOrigin("video room scheduler"),
+                before: { twilioID: twilioRoomID, participants }
+            });
+        }
+    }
+}
+
+async function runScheduler(conf: ConferenceT) {
+    const now = new Date();
+    forgetClosedWarnings(now);
+    const rooms = await getScheduledRooms(conf, now);
+    for (const room of rooms) {
+        try {
+            await updateScheduledRoom(conf, room, now);
+        }
+        catch (e) {
+            console.error(`[Schedule]: Failed to update ${room.id} (${room.get("name")})`, e);
+        }
+    }
+}
+
+const schedulers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Starts opening and closing the conference's scheduled rooms on time.
+ */
+export function startVideoRoomScheduler(conf: ConferenceT) {
+    if (schedulers.has(conf.id)) {
+        return;
+    }
+
+    schedulers.set(conf.id, setInterval(async () => {
+        try {
+            await runScheduler(conf);
+        }
+        catch (e) {
+            console.error(`[Schedule]: Failed to run for ${conf.get("name")} (${conf.id})`, e);
+        }
+    }, SCHEDULER_INTERVAL_MS));
+}
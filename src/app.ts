@@ -5,7 +5,7 @@ import Parse from "parse/node";
 import Express, { Request, Response, NextFunction } from 'express';
 import CORS from 'cors';
 import BodyParser from "body-parser";
-import Twilio from "twilio";
+import { Server } from "http";
 // import JWT from 'jsonwebtoken';
 
 import { getConference, getUserProfileByID } from "./ParseHelpers";
@@ -20,51 +20,80 @@ import {
     Conference, ConferenceT,
     Role, RoleT,
     TextChat, TextChatT,
+    UserProfileT,
     UserT,
     VideoRoom, VideoRoomT
 } from "./SchemaTypes";
 
-import { handleAddReaction, handleGenerateFreshToken as handleGenerateFreshChatToken, handleRemoveReaction } from "./Chat";
-import { handleGenerateFreshToken as handleGenerateFreshVideoToken, handleDeleteVideoRoom } from "./Video";
+import {
+    handleAddReaction,
+    handleDeleteMessage,
+    handleGenerateFreshToken as handleGenerateFreshChatToken,
+    handleRedactMessage,
+    handleRefreshToken as handleRefreshChatToken,
+    handleRemoveReaction
+} from "./Chat";
+import {
+    handleDeleteVideoRoom,
+    handleGenerateFreshToken as handleGenerateFreshVideoToken,
+    handleNewVideoRoom,
+    handleRefreshToken as handleRefreshVideoToken,
+    handleUpdateVideoRoomACL,
+    processTwilioRoomEnded
+} from "./Video";
 import { getConfig } from "./Config";
+import { handleReloadConference, watchConferenceConfig } from "./ConferenceReload";
+import { handleGetAttendance } from "./Attendance";
+import { getWebhookOrigin, handleGetAuditLog, tryRecordAuditLog } from "./AuditLog";
+import { authorize } from "./Authorization";
+import { handleBanUser, handleReport, handleResolveReport } from "./Moderation";
+import { handleSetUserRole } from "./RoleManagement";
+import * as ChatMirroring from "./ChatMirroring";
+import {
+    getProvider,
+    releaseTwilioWebhook,
+    TwilioWebhookContext,
+    validateTwilioChatWebhook,
+    validateTwilioVideoWebhook
+} from "./Twilio";
+import { ensureTwilioChatRoles } from "./TwilioServiceSpec";
+import { applyMutedTracksToNewParticipant, handleKickParticipant, handleLockVideoRoom, handleMuteParticipant } from "./VideoModeration";
+import { getEventTime, onParticipantConnected, onParticipantDisconnected } from "./VideoParticipants";
+import { handleSetVideoRecording, onCompositionStatusCallback } from "./VideoRecording";
 
 // Initialise the Express app
 const app = Express();
 // Cross-Origin Resource Sharing
 app.use(CORS());
 
-// TODO: This app has to initialise and pick up whatever conference state has
-// formed inside Twilio and make our data match up. E.g. chats and video rooms
-// may have been created while this was offline.
-
-// TODO: Make sure any existing conference's chat service are configured with the
-//       hooks handled in processTwilioChatEvent.
-// TODO: How do we keep the hooks list consistent with the 'create conference' code?
-
-
 /**********************
  * Twilio callback(s) *
  **********************/
 
-async function processTwilioChatEvent(req: Express.Request, res: Express.Response) {
+async function recordMemberRoleChange(req: Express.Request, conference: ConferenceT, member: UserProfileT, newRoleSid: string) {
+    await tryRecordAuditLog(conference, undefined, "chat:member:role", req.body.ChannelSid, {
+        profile: member.id
+    }, {
+        origin: getWebhookOrigin(req),
+        before: { roleSid: req.body.RoleSid },
+        after: { roleSid: newRoleSid }
+    });
+}
+
+async function processTwilioChatEvent(req: Express.Request, res: Express.Response, twilioContext: TwilioWebhookContext) {
     let status = 200;
     let response = {};
 
-    const twilioAccountSID = req.body.AccountSid;
-    const twilioInstanceSID = req.body.InstanceSid;
+    // The webhook signature has already been checked against this conference's
+    // Twilio account, so we only ever act within this conference.
+    const { confId, config } = twilioContext;
+    const conference = await getConference(confId);
 
     switch (req.body.EventType) {
         case "onMemberAdded":
-            // TODO: for detecting sticky-shift into 'large channel' mode
-            //
-            // - When upgrading to mirroring, set these webhooks on the channel:
-            // 'onMessageSent' / 'onMessageUpdated'
-            // 'onMessageRemoved' / 'onMediaMessageSent'
-            // 'onChannelUpdated' / 'onChannelDestroyed'
-
             {
                 const targetUserProfileId = req.body.Identity;
-                const targetUserProfile = await getUserProfileByID(targetUserProfileId);
+                const targetUserProfile = await getUserProfileByID(targetUserProfileId, conference);
                 if (!targetUserProfile) {
                     response = "Invalid target user profile ID.";
                     status = 403;
@@ -72,33 +101,22 @@ async function processTwilioChatEvent(req: Express.Request, res: Express.Respons
                 }
 
                 if (targetUserProfile.get("isBanned")) {
-                    const conference = targetUserProfile.get("conference") as ConferenceT;
-                    const config = await getConfig(conference.id);
-                    const twilioClient = Twilio(config.TWILIO_ACCOUNT_SID, config.TWILIO_AUTH_TOKEN);
-                    const twilioChatService = twilioClient.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+                    const provider = await getProvider(confId, config);
+                    const twilioChatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
                     await twilioChatService.users(targetUserProfile.id).remove();
                     response = "User is banned.";
                     status = 403;
                     break;
                 }
                 else {
-                    const conference = targetUserProfile.get("conference") as ConferenceT;
-                    const config = await getConfig(conference.id);
-                    {
-                        const expectedTwilioAccountSID = config.TWILIO_ACCOUNT_SID;
-                        const expectedTwilioInstanceSID = config.TWILIO_CHAT_SERVICE_SID;
-                        assert(twilioAccountSID === expectedTwilioAccountSID, "Unexpected Twilio account SID.");
-                        assert(twilioInstanceSID === expectedTwilioInstanceSID, "Unexpected Twilio chat service SID.");
-                    }
-
                     const targetUser = targetUserProfile.get("user") as UserT;
                     const isAdmin = await isUserInRoles(targetUser.id, conference.id, ["admin"]);
                     const isManager = await isUserInRoles(targetUser.id, conference.id, ["manager"]);
 
-                    const twilioClient = Twilio(config.TWILIO_ACCOUNT_SID, config.TWILIO_AUTH_TOKEN);
-                    const twilioChatService = twilioClient.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+                    const provider = await getProvider(confId, config);
+                    const twilioChatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
 
-                    const roles = await twilioChatService.roles.list();
+                    const roles = await ensureTwilioChatRoles(twilioChatService);
 
                     if (req.body.ChannelSid === config.TWILIO_ANNOUNCEMENTS_CHANNEL_SID) {
                         const announcementsAdminRole = roles.find(x => x.friendlyName === "announcements admin");
@@ -117,6 +135,7 @@ async function processTwilioChatEvent(req: Express.Request, res: Express.Respons
                             await announcementsTwilioChannelCtx.members(targetUserProfile.id).update({
                                 roleSid: newRoleSid
                             });
+                            await recordMemberRoleChange(req, conference, targetUserProfile, newRoleSid);
                         }
                     }
                     else {
@@ -138,6 +157,7 @@ async function processTwilioChatEvent(req: Express.Request, res: Express.Respons
                                     await moderationTwilioChannelCtx.members(targetUserProfile.id).update({
                                         roleSid: channelUserRole.sid
                                     });
+                                    await recordMemberRoleChange(req, conference, targetUserProfile, channelUserRole.sid);
                                 }
                             }
                             else {
@@ -161,6 +181,15 @@ async function processTwilioChatEvent(req: Express.Request, res: Express.Respons
                                 await channelCtx.members(targetUserProfile.id).update({
                                     roleSid: newRoleSid
                                 });
+                                await recordMemberRoleChange(req, conference, targetUserProfile, newRoleSid);
+                            }
+
+                            // Detect the sticky-shift into 'large channel' (mirrored) mode
+                            try {
+                                await ChatMirroring.checkChannelMirroring(conference, config, req.body.ChannelSid, twilioContext.url);
+                            }
+                            catch (e) {
+                                console.error(`Failed to check mirroring for channel ${req.body.ChannelSid}`, e);
                             }
                         }
                     }
@@ -171,7 +200,7 @@ async function processTwilioChatEvent(req: Express.Request, res: Express.Respons
         case "onUserAdded":
             {
                 const targetUserProfileId = req.body.Identity;
-                const targetUserProfile = await getUserProfileByID(targetUserProfileId);
+                const targetUserProfile = await getUserProfileByID(targetUserProfileId, conference);
                 if (!targetUserProfile) {
                     response = "Invalid target user profile ID.";
                     status = 403;
@@ -179,33 +208,22 @@ async function processTwilioChatEvent(req: Express.Request, res: Express.Respons
                 }
 
                 if (targetUserProfile.get("isBanned")) {
-                    const conference = targetUserProfile.get("conference") as ConferenceT;
-                    const config = await getConfig(conference.id);
-                    const twilioClient = Twilio(config.TWILIO_ACCOUNT_SID, config.TWILIO_AUTH_TOKEN);
-                    const twilioChatService = twilioClient.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+                    const provider = await getProvider(confId, config);
+                    const twilioChatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
                     await twilioChatService.users(targetUserProfile.id).remove();
                     response = "User is banned.";
                     status = 403;
                     break;
                 }
                 else {
-                    const conference = targetUserProfile.get("conference") as ConferenceT;
-                    const config = await getConfig(conference.id);
-                    {
-                        const expectedTwilioAccountSID = config.TWILIO_ACCOUNT_SID;
-                        const expectedTwilioInstanceSID = config.TWILIO_CHAT_SERVICE_SID;
-                        assert(twilioAccountSID === expectedTwilioAccountSID, "Unexpected Twilio account SID.");
-                        assert(twilioInstanceSID === expectedTwilioInstanceSID, "Unexpected Twilio chat service SID.");
-                    }
-
                     const targetUser = targetUserProfile.get("user") as UserT;
                     const isAdmin = await isUserInRoles(targetUser.id, conference.id, ["admin"]);
                     const isManager = await isUserInRoles(targetUser.id, conference.id, ["manager"]);
 
-                    const twilioClient = Twilio(config.TWILIO_ACCOUNT_SID, config.TWILIO_AUTH_TOKEN);
-                    const twilioChatService = twilioClient.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+                    const provider = await getProvider(confId, config);
+                    const twilioChatService = provider.chat.services(config.TWILIO_CHAT_SERVICE_SID);
 
-                    const roles = await twilioChatService.roles.list();
+                    const roles = await ensureTwilioChatRoles(twilioChatService);
                     const serviceAdminRole = roles.find(x => x.friendlyName === "service admin");
                     assert(serviceAdminRole);
 
@@ -291,22 +309,20 @@ async function processTwilioChatEvent(req: Express.Request, res: Express.Respons
 
         // Large-channel-mirroring (per-channel webhooks)
         case "onMessageSent":
-            // TODO: for (large) channel mirroring (set webhook per-channel)
+        case "onMediaMessageSent":
+            await ChatMirroring.onMessageSent(conference, req.body);
             break;
         case "onMessageUpdated":
-            // TODO: for (large) channel mirroring (set webhook per-channel)
+            await ChatMirroring.onMessageUpdated(conference, req.body);
             break;
         case "onMessageRemoved":
-            // TODO: for (large) channel mirroring (set webhook per-channel)
-            break;
-        case "onMediaMessageSent":
-            // TODO: for (large) channel mirroring (set webhook per-channel)
+            await ChatMirroring.onMessageRemoved(conference, req.body);
             break;
         case "onChannelUpdated":
-            // TODO: for (large) channel mirroring (set webhook per-channel)
+            await ChatMirroring.onChannelUpdated(conference, req.body);
             break;
         case "onChannelDestroyed":
-            // TODO: for (large) channel mirroring (set webhook per-channel)
+            await ChatMirroring.onChannelDestroyed(conference, req.body);
             break;
     }
 
@@ -317,10 +333,18 @@ async function processTwilioChatEvent(req: Express.Request, res: Express.Respons
 app.post("/twilio/chat/event", BodyParser.json(), BodyParser.urlencoded({ extended: false }), async (req, res) => {
     try {
         // console.log(`${req.body.EventType} chat event received for: ${req.body.ChannelSid ?? req.body.Identity}`);
-        await processTwilioChatEvent(req, res);
+        const twilioContext = await validateTwilioChatWebhook(req);
+        if (!twilioContext) {
+            res.status(403);
+            res.send();
+            return;
+        }
+
+        await processTwilioChatEvent(req, res, twilioContext);
         return;
     } catch (e) {
         console.error("Error processing Twilio chat webhook. Rejecting changes.", e);
+        releaseTwilioWebhook(req);
         res.status(403);
         res.send();
         return;
@@ -332,76 +356,41 @@ app.post("/twilio/chat/event", BodyParser.json(), BodyParser.urlencoded({ extend
  * Moderation endpoints *
  ************************/
 
-// app.post("/moderator/fromVideo", BodyParser.json(), BodyParser.urlencoded({ extended: false }), async (req, res) => {
-//     try {
-//         await sendModeratorMessage(req, res);
-//     } catch (err) {
-//         res.status(500);
-//         res.send({ status: "error", message: "An internal server error occurred." })
-//         console.error(err);
-//     }
-// })
-
-// app.post("/video/acl", BodyParser.json(), BodyParser.urlencoded({ extended: false }), async (req, res) => {
-//     await updateACL(req, res);
-// })
-
-// app.post('/users/ban', BodyParser.json(), BodyParser.urlencoded({ extended: false }), async (req, res, next) => {
-//     const identity = req.body.identity;
-//     const profileToBan = req.body.profileID;
-//     const isBan = req.body.isBan;
-//     let conf = await getConference(req.body.conference);
-//     try {
-//         const hasAccess = await sessionTokenIsFromModerator(identity, conf.id);
-//         if (!hasAccess) {
-//             res.status(403);
-//             res.send();
-//             return;
-//         }
-//         let profileQ = new Parse.Query(UserProfile);
-//         profileQ.include("user");
-//         let profile = await profileQ.get(profileToBan, { useMasterKey: true });
-//         if (isBan) {
-//             profile.set("isBanned", true);
-//             let bannedACL = new Parse.ACL();
-//             bannedACL.setWriteAccess(profile.get("user"), false);
-//             bannedACL.setRoleReadAccess(conf.id + "-conference", true);
-//             profile.setACL(bannedACL);
-//             await profile.save({}, { useMasterKey: true });
-
-//             //Deny user read access to their own record
-//             let user = profile.get("user");
-//             let bannedUserACL = new Parse.ACL();
-//             user.setACL(bannedUserACL);
-//             await user.save({}, { useMasterKey: true });
-//         } else {
-//             profile.set("isBanned", false);
-//             let notBannedACL = new Parse.ACL();
-//             notBannedACL.setWriteAccess(profile.get("user"), true);
-//             notBannedACL.setRoleReadAccess(conf.id + "-conference", true);
-
-//             profile.setACL(notBannedACL);
-//             await profile.save({}, { useMasterKey: true });
-//             let user = profile.get("user");
-
-//             let userACL = new Parse.ACL();
-//             userACL.setWriteAccess(user, true);
-//             userACL.setReadAccess(user, true);
-//             user.setACL(userACL);
-//             await user.save({}, { useMasterKey: true });
-
-//         }
-//         await pushToUserStream(profile.get("user"), conf, "profile");
-//         res.send({ status: "OK" });
-//     } catch (err) {
-//         res.status(500);
-//         console.error(err);
-//         res.send({ status: "error", message: "Internal server error, please check logs" })
-//     }
-//     // newNode[uid] = true;
-//     // let membersRef = roomRef.child("members").child(uid).set(true).then(() => {
-//     // });
-// });
+app.post('/users/ban',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("users:ban"),
+    handleBanUser);
+
+app.post('/users/roles',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("users:roles"),
+    handleSetUserRole);
+
+app.post('/moderation/report',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("moderation:report"),
+    handleReport);
+
+app.post('/moderation/resolve',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("moderation:resolve"),
+    handleResolveReport);
+
+app.post('/conference/reload',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("conference:reload"),
+    handleReloadConference);
+
+app.post('/auditlog',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("auditlog:read"),
+    handleGetAuditLog);
 
 
 /******************
@@ -411,100 +400,61 @@ app.post("/twilio/chat/event", BodyParser.json(), BodyParser.urlencoded({ extend
 app.post('/chat/token',
     BodyParser.json(),
     BodyParser.urlencoded({ extended: false }),
+    authorize("chat:token"),
     handleGenerateFreshChatToken);
 
+app.post('/chat/token/refresh',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("chat:token"),
+    handleRefreshChatToken);
+
 app.post('/chat/react',
     BodyParser.json(),
     BodyParser.urlencoded({ extended: false }),
+    authorize("chat:reaction"),
     handleAddReaction);
 
 app.post('/chat/tcaer',
     BodyParser.json(),
     BodyParser.urlencoded({ extended: false }),
+    authorize("chat:reaction"),
     handleRemoveReaction);
 
-// // TODO: Can't we control this through Twilio permissions?
-// app.post('/chat/deleteMessage', BodyParser.json(), BodyParser.urlencoded({ extended: false }), async (req, res, next) => {
-//     const identity = req.body.identity;
-//     const messageSID = req.body.message;
-//     const channelSID = req.body.room;
-//     try {
-//         const hasAccess = await sessionTokenIsFromModerator(identity, req.body.conference);
-//         let conf = await getConference(req.body.conference);
-//         if (!hasAccess) {
-//             res.status(403);
-//             res.send();
-//             return;
-//         }
-//         let chat = await conf.Twilio.chat.services(conf.config.TWILIO_CHAT_SERVICE_SID).channels(channelSID).messages(messageSID).remove();
-//         res.send({ status: "OK" });
-//     } catch (err) {
-//         next(err);
-//     }
-//     // newNode[uid] = true;
-//     // let membersRef = roomRef.child("members").child(uid).set(true).then(() => {
-//     // });
-// });
+app.post('/chat/message/delete',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("chat:message:moderate"),
+    handleDeleteMessage);
+
+app.post('/chat/message/redact',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("chat:message:moderate"),
+    handleRedactMessage);
 
 
 /*******************
  * Video endpoints *
  *******************/
 
-async function processTwilioVideoEvent(req: Express.Request, res: Express.Response) {
+async function processTwilioVideoEvent(req: Express.Request, res: Express.Response, twilioContext: TwilioWebhookContext) {
     const status = 200;
     const response = {};
 
     const roomSID = req.body.RoomSid;
     try {
+        const conference = await getConference(twilioContext.confId);
         const event = req.body.StatusCallbackEvent;
         if (event === "room-ended") {
-            const roomQ = new Parse.Query(VideoRoom);
-            roomQ.equalTo("twilioID", roomSID);
-            const room = await roomQ.first({ useMasterKey: true });
-            if (room) {
-                if (!room.get("ephemeral")) {
-                    console.log(`Removing Twilio room ID for ${room.get("conference").id}:${room.get("name")}`)
-                    room.set("twilioID", "");
-                    await room.save({ participants: [] }, { useMasterKey: true });
-                } else {
-                    await room.destroy({ useMasterKey: true });
-                }
-            } else {
-                console.warn(`Unable to destroy room ${roomSID} because it doesn't exist in Parse.`);
-            }
+            await processTwilioRoomEnded(conference, twilioContext.config, roomSID, getEventTime(req.body));
         }
         else if (event === "participant-connected") {
-            const roomQ = new Parse.Query(VideoRoom);
-            roomQ.equalTo("twilioID", roomSID);
-            const room = await roomQ.first({ useMasterKey: true });
-            if (room) {
-                const participantIds = room.get("participants");
-                const connectedProfileId = req.body.ParticipantIdentity;
-                if (!participantIds.includes(connectedProfileId)) {
-                    await room.save({
-                        participants: [...participantIds, connectedProfileId]
-                    }, {
-                        useMasterKey: true
-                    });
-                }
-            }
+            await onParticipantConnected(conference, req.body);
+            await applyMutedTracksToNewParticipant(conference, req.body);
         }
         else if (event === "participant-disconnected") {
-            const roomQ = new Parse.Query(VideoRoom);
-            roomQ.equalTo("twilioID", roomSID);
-            const room = await roomQ.first({ useMasterKey: true });
-            if (room) {
-                const participantIds = room.get("participants");
-                const disconnectedProfileId = req.body.ParticipantIdentity;
-                if (participantIds.includes(disconnectedProfileId)) {
-                    await room.save({
-                        participants: participantIds.filter(x => x !== disconnectedProfileId)
-                    }, {
-                        useMasterKey: true
-                    });
-                }
-            }
+            await onParticipantDisconnected(conference, req.body);
         }
     } catch (err) {
         console.error("Error processing Twilio video event", err);
@@ -517,10 +467,50 @@ async function processTwilioVideoEvent(req: Express.Request, res: Express.Respon
 app.post("/twilio/video/event", BodyParser.json(), BodyParser.urlencoded({ extended: false }), async (req, res) => {
     try {
         // console.log(`${req.body.StatusCallbackEvent} video event received for: ${req.body.RoomSid ?? req.body.Identity}`);
-        await processTwilioVideoEvent(req, res);
+        const twilioContext = await validateTwilioVideoWebhook(req);
+        if (!twilioContext) {
+            res.status(403);
+            res.send();
+            return;
+        }
+
+        await processTwilioVideoEvent(req, res, twilioContext);
         return;
     } catch (e) {
         console.error("Error processing Twilio video webhook. Rejecting changes.", e);
+        releaseTwilioWebhook(req);
+        res.status(403);
+        res.send();
+        return;
+    }
+});
+
+async function processTwilioCompositionEvent(req: Express.Request, res: Express.Response, twilioContext: TwilioWebhookContext) {
+    try {
+        const conference = await getConference(twilioContext.confId);
+        await onCompositionStatusCallback(conference, req.body);
+    } catch (err) {
+        console.error("Error processing Twilio composition event", err);
+    }
+
+    res.status(200);
+    res.send({});
+}
+
+app.post("/twilio/video/composition", BodyParser.json(), BodyParser.urlencoded({ extended: false }), async (req, res) => {
+    try {
+        const twilioContext = await validateTwilioVideoWebhook(req);
+        if (!twilioContext) {
+            res.status(403);
+            res.send();
+            return;
+        }
+
+        await processTwilioCompositionEvent(req, res, twilioContext);
+        return;
+    } catch (e) {
+        console.error("Error processing Twilio composition webhook. Rejecting changes.", e);
+        releaseTwilioWebhook(req);
         res.status(403);
         res.send();
         return;
@@ -530,20 +520,73 @@ app.post("/twilio/video/event", BodyParser.json(), BodyParser.urlencoded({ exten
 app.post('/video/token',
     BodyParser.json(),
     BodyParser.urlencoded({ extended: false }),
+    authorize("video:token"),
     handleGenerateFreshVideoToken);
 
+app.post('/video/token/refresh',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("video:token:refresh"),
+    handleRefreshVideoToken);
+
+app.post('/video/new',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("video:room:create"),
+    handleNewVideoRoom);
+
+app.post('/video/acl',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("video:room:acl"),
+    handleUpdateVideoRoomACL);
+
 app.post('/video/delete',
     BodyParser.json(),
     BodyParser.urlencoded({ extended: false }),
+    authorize("video:room:delete"),
     handleDeleteVideoRoom);
 
+app.post('/video/kick',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("video:room:moderate"),
+    handleKickParticipant);
+
+app.post('/video/lock',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("video:room:moderate"),
+    handleLockVideoRoom);
+
+app.post('/video/mute',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("video:room:moderate"),
+    handleMuteParticipant);
+
+app.post('/video/recording',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("video:room:moderate"),
+    handleSetVideoRecording);
+
+app.post('/video/attendance',
+    BodyParser.json(),
+    BodyParser.urlencoded({ extended: false }),
+    authorize("video:attendance"),
+    handleGetAttendance);
+
 
 
 /**********
  * Server *
  **********/
 
-async function runBackend() {
+/**
+ * Starts the backend. Resolves with the HTTP server once it is listening.
+ */
+async function runBackend(): Promise<Server> {
     // Check we have all the required environment keys for Parse
     assert(process.env.REACT_APP_PARSE_APP_ID,
         "REACT_APP_PARSE_APP_ID not provided.");
@@ -562,6 +605,10 @@ async function runBackend() {
     );
     Parse.serverURL = process.env.REACT_APP_PARSE_DATABASE_URL;
 
+    watchConferenceConfig().catch((err) => {
+        console.error("Could not watch conference configuration for changes.", err);
+    });
+
     let promises: Array<Promise<any>> = [];
 
     if ((process.env.TWILIO_BACKEND_SKIP_INIT || "false") === "false") {
@@ -585,11 +632,12 @@ async function runBackend() {
             console.error(err);
         });
     }
-    Promise.all(promises).then(() => {
-        app.listen(process.env.PORT || 3001, () =>
-            console.log('Express server is running on localhost:3001')
-        );
-    });
+    return Promise.all(promises).then(() => new Promise<Server>(resolve => {
+        const server = app.listen(process.env.PORT || 3001, () => {
+            console.log('Express server is running on localhost:3001');
+            resolve(server);
+        });
+    }));
 }
 
 export default runBackend;
@@ -1,5 +1,6 @@
 import Parse from "parse/node";
 import Twilio from 'twilio';
+import JWT from 'jsonwebtoken';
 import { ClowdrConfig } from './Config';
 
 const AccessToken = Twilio.jwt.AccessToken;
@@ -53,3 +54,75 @@ export function generateVideoToken(
     token.addGrant(videoGrant);
     return token;
 };
+
+// A token may be refreshed from shortly before it expires until shortly after
+const REFRESH_BEFORE_EXPIRY_SECONDS = 60 * 15;
+const REFRESH_AFTER_EXPIRY_SECONDS = 60 * 5;
+
+export type DecodedToken = {
+    identity: string;
+    /** Seconds since the epoch */
+    expiry: number;
+    /** The room the token grants access to, if it is a video token */
+    videoRoom?: string;
+    hasChatGrant: boolean;
+};
+
+function isRecord(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the fields we rely on from a verified token's payload, or undefined if
+ * it doesn't look like one of our access tokens.
+ */
+function parseTokenPayload(payload: unknown): DecodedToken | undefined {
+    if (!isRecord(payload) || typeof payload.exp !== "number" || !isRecord(payload.grants)) {
+        return undefined;
+    }
+
+    const { identity, video, chat } = payload.grants;
+    if (typeof identity !== "string" || !identity) {
+        return undefined;
+    }
+    let videoRoom: string | undefined;
+    if (video !== undefined) {
+        if (!isRecord(video) || (video.room !== undefined && typeof video.room !== "string")) {
+            return undefined;
+        }
+        videoRoom = video.room;
+    }
+
+    return {
+        identity,
+        expiry: payload.exp,
+        videoRoom,
+        hasChatGrant: isRecord(chat)
+    };
+}
+
+/**
+ * Checks a token was issued by us (for this conference's Twilio account) and
+ * returns its contents. Expired tokens are still decoded - use
+ * `isTokenDueForRefresh` to decide whether to accept them.
+ */
+export function decodeToken(config: ClowdrConfig, token: string): DecodedToken | undefined {
+    let payload: unknown;
+    try {
+        payload = JWT.verify(token, config.TWILIO_API_SECRET, {
+            ignoreExpiration: true,
+            issuer: config.TWILIO_API_KEY,
+            subject: config.TWILIO_ACCOUNT_SID
+        });
+    }
+    catch (e) {
+        return undefined;
+    }
+    return parseTokenPayload(payload);
+}
+
+export function isTokenDueForRefresh(token: DecodedToken): boolean {
+    const now = Date.now() / 1000;
+    return now >= token.expiry - REFRESH_BEFORE_EXPIRY_SECONDS
+        && now <= token.expiry + REFRESH_AFTER_EXPIRY_SECONDS;
+}
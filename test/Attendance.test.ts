@@ -0,0 +1,43 @@
+import assert from "assert";
+
+import { callAsUser, createTestConference, createTestUser, TestConference, TestUser } from "./support/Conference";
+
+describe("Attendance", () => {
+    let t: TestConference;
+    let admin: TestUser;
+    let attendee: TestUser;
+
+    before(async () => {
+        t = await createTestConference();
+        admin = await createTestUser(t, ["admin"]);
+        attendee = await createTestUser(t, ["attendee"]);
+    });
+
+    it("reports rooms by name after they've gone, without letting their names become formulas", async () => {
+        const created = await callAsUser(t, attendee, "/video/new", {
+            name: "=SUM(1,2)",
+            visibility: "public",
+            persistence: "ephemeral"
+        });
+        assert.strictEqual(created.status, 200, JSON.stringify(created.body));
+        const roomId = created.body.room;
+
+        const token = await callAsUser(t, attendee, "/video/token", { room: roomId });
+        assert.strictEqual(token.status, 200, JSON.stringify(token.body));
+        const twilioRoomSid = token.body.twilioRoomId;
+        t.fake.connectParticipant(twilioRoomSid, attendee.profile.id);
+        // Stays long enough to count
+        await new Promise(resolve => setTimeout(resolve, 50));
+        await t.fake.video.rooms(twilioRoomSid).update({ status: "completed" });
+        const deliveries = await t.webhooks.deliverAll();
+        assert(deliveries.every(x => x.status === 200), JSON.stringify(deliveries.map(x => x.status)));
+
+        const result = await callAsUser(t, admin, "/video/attendance", { format: "csv" });
+        assert.strictEqual(result.status, 200);
+        const rows = result.body.split("\r\n");
+        assert.strictEqual(rows[0], "room,name,sessions,unique_attendees,total_minutes,peak_concurrency,peak_at");
+        const row = rows.find((x: string) => x.startsWith(roomId + ","));
+        assert(row, result.body);
+        assert(row.startsWith(`${roomId},"'=SUM(1,2)",1,1,`), row);
+    });
+});
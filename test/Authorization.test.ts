@@ -0,0 +1,117 @@
+import assert from "assert";
+import Express from "express";
+import { AddressInfo } from "net";
+
+import { handleGetAttendance } from "../src/Attendance";
+import { postJSON } from "./support/Http";
+import { callAsUser, createTestConference, createTestUser, TestConference, TestUser } from "./support/Conference";
+
+describe("Authorization", () => {
+    let t: TestConference;
+    let admin: TestUser;
+    let manager: TestUser;
+    let attendee: TestUser;
+    let otherAttendee: TestUser;
+    let managersRoom: string;
+    let privateRoom: string;
+
+    before(async () => {
+        t = await createTestConference();
+        admin = await createTestUser(t, ["admin"]);
+        manager = await createTestUser(t, ["manager"]);
+        attendee = await createTestUser(t, ["attendee"]);
+        otherAttendee = await createTestUser(t, ["attendee"]);
+
+        const created = await Promise.all([
+            callAsUser(t, manager, "/video/new", { name: "Manager's room", visibility: "public", persistence: "persistent" }),
+            callAsUser(t, otherAttendee, "/video/new", { name: "Someone else's room", visibility: "private" })
+        ]);
+        assert.deepStrictEqual(created.map(x => x.status), [200, 200]);
+        [managersRoom, privateRoom] = created.map(x => x.body.room);
+    });
+
+    // Every route with a policy a plain attendee can fail, with a request
+    // that should fail it. (`chat:token` and `video:token:refresh` let any
+    // member through - the latter's handler checks the room itself.)
+    const NOT_IN_CHANNEL = "CH00000000000000000000000000000000";
+    const refusedRequests: Array<[string, string, () => object]> = [
+        ["users:ban", "/users/ban", () => ({ profile: otherAttendee.profile.id, banned: true })],
+        ["users:roles", "/users/roles", () => ({ profile: attendee.profile.id, role: "admin", grant: true })],
+        ["moderation:report", "/moderation/report", () => ({ targetType: "message", channel: NOT_IN_CHANNEL, targetId: "IM0", reason: "Spam" })],
+        ["moderation:resolve", "/moderation/resolve", () => ({ report: "nonexistent" })],
+        ["conference:reload", "/conference/reload", () => ({})],
+        ["auditlog:read", "/auditlog", () => ({})],
+        ["chat:reaction", "/chat/react", () => ({ channel: NOT_IN_CHANNEL, message: "IM0", reaction: "+1" })],
+        ["chat:reaction", "/chat/tcaer", () => ({ channel: NOT_IN_CHANNEL, message: "IM0", reaction: "+1" })],
+        ["chat:message:moderate", "/chat/message/delete", () => ({ channel: NOT_IN_CHANNEL, message: "IM0" })],
+        ["chat:message:moderate", "/chat/message/redact", () => ({ channel: NOT_IN_CHANNEL, message: "IM0" })],
+        ["video:token", "/video/token", () => ({ room: privateRoom })],
+        ["video:room:create", "/video/new", () => ({ name: "Not allowed", visibility: "public", persistence: "persistent" })],
+        ["video:room:acl", "/video/acl", () => ({ room: managersRoom, add: [attendee.profile.id] })],
+        ["video:room:delete", "/video/delete", () => ({ room: managersRoom })],
+        ["video:room:moderate", "/video/kick", () => ({ room: managersRoom, profile: otherAttendee.profile.id })],
+        ["video:room:moderate", "/video/lock", () => ({ room: managersRoom, locked: true })],
+        ["video:room:moderate", "/video/mute", () => ({ room: managersRoom, profile: otherAttendee.profile.id, tracks: ["audio"] })],
+        ["video:room:moderate", "/video/recording", () => ({ room: managersRoom, recording: true })],
+        ["video:attendance", "/video/attendance", () => ({})]
+    ];
+
+    for (const [action, route, body] of refusedRequests) {
+        it(`refuses ${route} (${action}) to an attendee`, async () => {
+            const result = await callAsUser(t, attendee, route, body());
+            assert.deepStrictEqual([result.status, result.body], [403, { status: "Permission denied." }]);
+        });
+    }
+
+    it("only lets moderators create persistent and group rooms", async () => {
+        let count = 0;
+        const outcomes: Array<string> = [];
+        for (const user of [attendee, manager, admin]) {
+            for (const persistence of ["ephemeral", "persistent"]) {
+                for (const mode of ["group", "group-small", "peer-to-peer"]) {
+                    count++;
+                    const result = await callAsUser(t, user, "/video/new", {
+                        name: `Matrix room ${count}`,
+                        visibility: "public",
+                        persistence,
+                        mode
+                    });
+                    if (result.status === 200) {
+                        outcomes.push(`${user.profile.get("displayName")}: ${persistence} ${mode}`);
+                    }
+                    else {
+                        assert.strictEqual(result.status, 403, JSON.stringify(result.body));
+                    }
+                }
+            }
+        }
+
+        const expected: Array<string> = [];
+        for (const user of [attendee, manager, admin]) {
+            for (const persistence of ["ephemeral", "persistent"]) {
+                for (const mode of ["group", "group-small", "peer-to-peer"]) {
+                    if (user !== attendee || (persistence === "ephemeral" && mode !== "group")) {
+                        expected.push(`${user.profile.get("displayName")}: ${persistence} ${mode}`);
+                    }
+                }
+            }
+        }
+        assert.deepStrictEqual(outcomes, expected);
+    });
+
+    it("refuses requests to handlers registered without a policy", async () => {
+        const app = Express();
+        app.post("/video/attendance", Express.json(), handleGetAttendance);
+        const server = app.listen(0);
+        try {
+            const result = await postJSON(`http://localhost:${(server.address() as AddressInfo).port}/video/attendance`, {
+                identity: admin.sessionToken,
+                conference: t.conf.id
+            });
+            assert.deepStrictEqual([result.status, result.body], [403, { status: "Permission denied." }]);
+        }
+        finally {
+            server.close();
+        }
+    });
+});
@@ -0,0 +1,186 @@
+import assert from "assert";
+import Parse from "parse/node";
+
+import { ClowdrConfig } from "../src/Config";
+import { ChatServiceContext } from "../src/Provider";
+import { AuditLog, TextChat } from "../src/SchemaTypes";
+import { ensureTwilioChatRoles, TwilioChatRoleName } from "../src/TwilioServiceSpec";
+import { createTestConference, createTestUser, TestConference } from "./support/Conference";
+import { replayRecordedWebhooks } from "./support/Webhooks";
+
+describe("Chat webhooks", () => {
+    let t: TestConference;
+    let config: ClowdrConfig;
+    let chatService: ChatServiceContext;
+    let modHubSid: string;
+
+    before(async () => {
+        t = await createTestConference();
+        config = await t.config();
+        chatService = t.fake.chat.services(config.TWILIO_CHAT_SERVICE_SID);
+
+        const modHubQ = new Parse.Query(TextChat);
+        modHubQ.equalTo("conference", t.conf);
+        modHubQ.equalTo("mode", "moderation_hub");
+        const modHub = await modHubQ.first({ useMasterKey: true });
+        assert(modHub);
+        modHubSid = modHub.get("twilioID");
+    });
+
+    async function getRoleSid(name: TwilioChatRoleName): Promise<string> {
+        const role = (await ensureTwilioChatRoles(chatService)).find(x => x.friendlyName === name);
+        assert(role, `No ${name} role`);
+        return role.sid;
+    }
+
+    async function getRoleName(roleSid: string): Promise<string | undefined> {
+        return (await chatService.roles.list()).find(x => x.sid === roleSid)?.friendlyName;
+    }
+
+    /** The name of the member's role in the channel, if they're a member */
+    async function getMemberRoleName(channelSid: string, identity: string): Promise<string | undefined> {
+        const [member] = await chatService.channels(channelSid).members.list({ identity });
+        return member ? getRoleName(member.roleSid) : undefined;
+    }
+
+    async function createChannel(): Promise<string> {
+        const channel = await chatService.channels.create({ friendlyName: "Hallway", type: "public" });
+        return channel.sid;
+    }
+
+    describe("onUserAdded", () => {
+        it("adds an attendee to the announcements channel as a user", async () => {
+            const attendee = await createTestUser(t, ["attendee"]);
+            await chatService.users.create({ identity: attendee.profile.id });
+
+            const [result] = await replayRecordedWebhooks(t.backend, config, "chat-user-added", {
+                Identity: attendee.profile.id,
+                RoleSid: await getRoleSid("service user")
+            });
+
+            assert.strictEqual(result.status, 200);
+            assert(JSON.parse(result.response).friendlyName, "Expected a friendly name for the user");
+            assert.strictEqual(await getRoleName((await chatService.users(attendee.profile.id).fetch()).roleSid), "service user");
+            assert.strictEqual(await getMemberRoleName(config.TWILIO_ANNOUNCEMENTS_CHANNEL_SID, attendee.profile.id), "announcements user");
+            assert.strictEqual(await getMemberRoleName(modHubSid, attendee.profile.id), undefined);
+        });
+
+        it("makes an admin a service admin, an announcements admin and a moderation hub member", async () => {
+            const admin = await createTestUser(t, ["admin"]);
+            await chatService.users.create({ identity: admin.profile.id });
+
+            const [result] = await replayRecordedWebhooks(t.backend, config, "chat-user-added", {
+                Identity: admin.profile.id,
+                RoleSid: await getRoleSid("service user")
+            });
+
+            assert.strictEqual(result.status, 200);
+            assert.strictEqual(await getRoleName((await chatService.users(admin.profile.id).fetch()).roleSid), "service admin");
+            assert.strictEqual(await getMemberRoleName(config.TWILIO_ANNOUNCEMENTS_CHANNEL_SID, admin.profile.id), "announcements admin");
+            assert.strictEqual(await getMemberRoleName(modHubSid, admin.profile.id), "channel user");
+        });
+
+        it("refuses and removes a banned user", async () => {
+            const banned = await createTestUser(t, ["attendee"]);
+            await banned.profile.save({ isBanned: true }, { useMasterKey: true });
+            await chatService.users.create({ identity: banned.profile.id });
+
+            const [result] = await replayRecordedWebhooks(t.backend, config, "chat-user-added", {
+                Identity: banned.profile.id,
+                RoleSid: await getRoleSid("service user")
+            });
+
+            assert.strictEqual(result.status, 403);
+            await assert.rejects(chatService.users(banned.profile.id).fetch(), (e: any) => e.status === 404);
+        });
+
+        it("refuses identities that aren't in the conference", async () => {
+            const [result] = await replayRecordedWebhooks(t.backend, config, "chat-user-added", {
+                Identity: "notAProfile",
+                RoleSid: await getRoleSid("service user")
+            });
+
+            assert.strictEqual(result.status, 403);
+        });
+    });
+
+    describe("onMemberAdded", () => {
+        it("makes a manager a channel admin and records the change", async () => {
+            const manager = await createTestUser(t, ["manager"]);
+            const channelSid = await createChannel();
+            await chatService.channels(channelSid).members.create({ identity: manager.profile.id });
+
+            const [result] = await replayRecordedWebhooks(t.backend, config, "chat-member-added", {
+                ChannelSid: channelSid,
+                Identity: manager.profile.id,
+                RoleSid: await getRoleSid("channel user")
+            });
+
+            assert.strictEqual(result.status, 200);
+            assert.strictEqual(await getMemberRoleName(channelSid, manager.profile.id), "channel admin");
+
+            const logQ = new Parse.Query(AuditLog);
+            logQ.equalTo("conference", t.conf);
+            logQ.equalTo("action", "chat:member:role");
+            logQ.equalTo("target", channelSid);
+            const entries = await logQ.find({ useMasterKey: true });
+            assert.strictEqual(entries.length, 1);
+            assert.deepStrictEqual(entries[0].get("data"), { profile: manager.profile.id });
+            assert.deepStrictEqual(entries[0].get("after"), { roleSid: await getRoleSid("channel admin") });
+        });
+
+        it("leaves an attendee as a channel user", async () => {
+            const attendee = await createTestUser(t, ["attendee"]);
+            const channelSid = await createChannel();
+            await chatService.channels(channelSid).members.create({ identity: attendee.profile.id });
+
+            const [result] = await replayRecordedWebhooks(t.backend, config, "chat-member-added", {
+                ChannelSid: channelSid,
+                Identity: attendee.profile.id,
+                RoleSid: await getRoleSid("channel user")
+            });
+
+            assert.strictEqual(result.status, 200);
+            assert.strictEqual(await getMemberRoleName(channelSid, attendee.profile.id), "channel user");
+        });
+
+        it("refuses an attendee joining the moderation hub", async () => {
+            const attendee = await createTestUser(t, ["attendee"]);
+
+            const [result] = await replayRecordedWebhooks(t.backend, config, "chat-member-added", {
+                ChannelSid: modHubSid,
+                Identity: attendee.profile.id,
+                RoleSid: await getRoleSid("channel user")
+            });
+
+            assert.strictEqual(result.status, 403);
+        });
+    });
+
+    describe("from the fake provider", () => {
+        it("sets up a client's chat user and channel membership as they connect", async () => {
+            const admin = await createTestUser(t, ["admin"]);
+            const channelSid = await createChannel();
+
+            t.fake.joinChatChannel(config.TWILIO_CHAT_SERVICE_SID, channelSid, admin.profile.id);
+            const deliveries = await t.webhooks.deliverAll();
+
+            assert.deepStrictEqual(deliveries.map(x => [x.body.EventType, x.status]), [
+                ["onUserAdded", 200],
+                ["onMemberAdded", 200]
+            ]);
+            assert.strictEqual(await getRoleName((await chatService.users(admin.profile.id).fetch()).roleSid), "service admin");
+            assert.strictEqual(await getMemberRoleName(channelSid, admin.profile.id), "channel admin");
+            assert.strictEqual(await getMemberRoleName(config.TWILIO_ANNOUNCEMENTS_CHANNEL_SID, admin.profile.id), "announcements admin");
+            assert.strictEqual(await getMemberRoleName(modHubSid, admin.profile.id), "channel user");
+        });
+
+        it("doesn't send webhooks for REST calls", async () => {
+            const attendee = await createTestUser(t, ["attendee"]);
+            await chatService.users.create({ identity: attendee.profile.id });
+            await chatService.channels(await createChannel()).members.create({ identity: attendee.profile.id });
+
+            assert.deepStrictEqual(await t.webhooks.deliverAll(), []);
+        });
+    });
+});
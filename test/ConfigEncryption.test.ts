@@ -0,0 +1,119 @@
+import assert from "assert";
+import Parse from "parse/node";
+
+import { encryptSecretConfigValues, getConfig, invalidateConfig, setConfigValue } from "../src/Config";
+import { generateConfigEncryptionKey, isEncryptedConfigValue } from "../src/ConfigEncryption";
+import { ConferenceConfig } from "../src/SchemaTypes";
+import { createTestConference, TestConference } from "./support/Conference";
+
+describe("Config encryption", () => {
+    let t: TestConference;
+    const secrets = { TWILIO_AUTH_TOKEN: "", TWILIO_API_SECRET: "" };
+    const originalKeys = {
+        current: process.env.CLOWDR_CONFIG_ENCRYPTION_KEY,
+        previous: process.env.CLOWDR_CONFIG_ENCRYPTION_PREVIOUS_KEYS
+    };
+
+    function setKeys(current: string | undefined, previous?: Array<string>) {
+        const set = (name: string, value: string | undefined) => {
+            if (value) {
+                process.env[name] = value;
+            }
+            else {
+                delete process.env[name];
+            }
+        };
+        set("CLOWDR_CONFIG_ENCRYPTION_KEY", current);
+        set("CLOWDR_CONFIG_ENCRYPTION_PREVIOUS_KEYS", previous?.join(","));
+        invalidateConfig(t.conf.id);
+    }
+
+    /** Sets the secrets again - encrypted if there's a key */
+    async function setSecrets() {
+        for (const [key, value] of Object.entries(secrets)) {
+            await setConfigValue(t.conf, key as keyof typeof secrets, value);
+        }
+    }
+
+    async function getStoredValue(key: keyof typeof secrets): Promise<string> {
+        const q = new Parse.Query(ConferenceConfig);
+        q.equalTo("conference", t.conf);
+        q.equalTo("key", key);
+        const row = await q.first({ useMasterKey: true });
+        assert(row);
+        return row.get("value");
+    }
+
+    async function assertSecretsReadable() {
+        const config = await getConfig(t.conf.id);
+        assert.deepStrictEqual([config.TWILIO_AUTH_TOKEN, config.TWILIO_API_SECRET], [secrets.TWILIO_AUTH_TOKEN, secrets.TWILIO_API_SECRET]);
+    }
+
+    before(async () => {
+        t = await createTestConference();
+        const config = await t.config();
+        secrets.TWILIO_AUTH_TOKEN = config.TWILIO_AUTH_TOKEN;
+        secrets.TWILIO_API_SECRET = config.TWILIO_API_SECRET;
+        assert(secrets.TWILIO_AUTH_TOKEN && secrets.TWILIO_API_SECRET);
+    });
+
+    after(async () => {
+        // The backend still reads this conference's config
+        setKeys(undefined);
+        await setSecrets();
+        setKeys(originalKeys.current, originalKeys.previous ? [originalKeys.previous] : undefined);
+    });
+
+    it("encrypts secrets as they're set, and decrypts them as they're read", async () => {
+        setKeys(generateConfigEncryptionKey());
+        await setSecrets();
+
+        for (const [key, value] of Object.entries(secrets)) {
+            const stored = await getStoredValue(key as keyof typeof secrets);
+            assert(isEncryptedConfigValue(stored), stored);
+            assert(!stored.includes(value), stored);
+        }
+        await assertSecretsReadable();
+    });
+
+    it("won't read secrets encrypted with a key it doesn't have", async () => {
+        setKeys(generateConfigEncryptionKey());
+        await setSecrets();
+
+        setKeys(generateConfigEncryptionKey());
+        await assert.rejects(getConfig(t.conf.id), /encrypted with an unknown key/);
+        setKeys(undefined);
+        await assert.rejects(getConfig(t.conf.id), /encrypted with an unknown key/);
+    });
+
+    it("encrypts secrets stored before there was a key, once", async () => {
+        setKeys(undefined);
+        await setSecrets();
+        assert.strictEqual(await getStoredValue("TWILIO_AUTH_TOKEN"), secrets.TWILIO_AUTH_TOKEN);
+
+        setKeys(generateConfigEncryptionKey());
+        assert.deepStrictEqual(await encryptSecretConfigValues("encrypt", t.conf.id), { updated: 2, skipped: 0 });
+        assert.deepStrictEqual(await encryptSecretConfigValues("encrypt", t.conf.id), { updated: 0, skipped: 2 });
+        assert(isEncryptedConfigValue(await getStoredValue("TWILIO_AUTH_TOKEN")));
+        await assertSecretsReadable();
+    });
+
+    it("rotates secrets to a new key once, after which the old one can go", async () => {
+        const oldKey = generateConfigEncryptionKey();
+        setKeys(oldKey);
+        await setSecrets();
+
+        const newKey = generateConfigEncryptionKey();
+        setKeys(newKey, [oldKey]);
+        await assertSecretsReadable();
+        assert.deepStrictEqual(await encryptSecretConfigValues("rotate", t.conf.id), { updated: 2, skipped: 0 });
+        const rotated = await getStoredValue("TWILIO_AUTH_TOKEN");
+        assert.deepStrictEqual(await encryptSecretConfigValues("rotate", t.conf.id), { updated: 0, skipped: 2 });
+        assert.strictEqual(await getStoredValue("TWILIO_AUTH_TOKEN"), rotated);
+
+        setKeys(newKey);
+        await assertSecretsReadable();
+        setKeys(oldKey);
+        await assert.rejects(getConfig(t.conf.id), /encrypted with an unknown key/);
+    });
+});
@@ -0,0 +1,34 @@
+import assert from "assert";
+
+import { setConfigValue } from "../src/Config";
+import { provisionConference, ProvisioningOptions } from "../src/Provisioning";
+import { createTestConference, TestConference } from "./support/Conference";
+
+describe("Provisioning", () => {
+    let t: TestConference;
+    const options: ProvisioningOptions = { subaccount: false };
+
+    before(async () => {
+        t = await createTestConference();
+    });
+
+    it("reuses everything when run again", async () => {
+        const keys = await t.fake.keys.list();
+        const steps = await provisionConference(t.conf, options);
+        assert.deepStrictEqual(steps.filter(x => x.result !== "reused" && x.result !== "ensured"), []);
+        assert.deepStrictEqual(await t.fake.keys.list(), keys);
+    });
+
+    it("won't replace an API key whose secret is missing", async () => {
+        const config = await t.config();
+        const keys = await t.fake.keys.list();
+        await setConfigValue(t.conf, "TWILIO_API_SECRET", "");
+        try {
+            await assert.rejects(provisionConference(t.conf, options), /TWILIO_API_SECRET is missing/);
+            assert.deepStrictEqual(await t.fake.keys.list(), keys);
+        }
+        finally {
+            await setConfigValue(t.conf, "TWILIO_API_SECRET", config.TWILIO_API_SECRET);
+        }
+    });
+});
@@ -0,0 +1,143 @@
+import assert from "assert";
+import Parse from "parse/node";
+
+import { getTokenTTL } from "../src/Config";
+import { VideoRoom } from "../src/SchemaTypes";
+import { generateVideoToken } from "../src/tokens";
+import { callAsUser, createTestConference, createTestUser, TestConference, TestUser } from "./support/Conference";
+
+describe("Video rooms", () => {
+    let t: TestConference;
+    let manager: TestUser;
+    let attendees: Array<TestUser>;
+
+    before(async () => {
+        t = await createTestConference();
+        manager = await createTestUser(t, ["manager"]);
+        attendees = [];
+        for (let i = 0; i < 3; i++) {
+            attendees.push(await createTestUser(t, ["attendee"]));
+        }
+    });
+
+    it("leaves room above a full room's capacity for moderators, and sends everyone else to one overflow room", async () => {
+        const created = await callAsUser(t, manager, "/video/new", {
+            name: "Small room",
+            visibility: "public",
+            persistence: "persistent",
+            capacity: 1,
+            autoOverflow: true
+        });
+        assert.strictEqual(created.status, 200, JSON.stringify(created.body));
+        const roomId = created.body.room;
+
+        const token = await callAsUser(t, attendees[0], "/video/token", { room: roomId });
+        assert.strictEqual(token.status, 200, JSON.stringify(token.body));
+        const twilioRoom = await t.fake.video.rooms(token.body.twilioRoomId).fetch();
+        assert.strictEqual(twilioRoom.maxParticipants, 3);
+        t.fake.connectParticipant(twilioRoom.sid, attendees[0].profile.id);
+
+        const turnedAway = await Promise.all(attendees.slice(1).map(x => callAsUser(t, x, "/video/token", { room: roomId })));
+        assert.deepStrictEqual(turnedAway.map(x => x.status), [409, 409]);
+        assert(turnedAway[0].body.overflowRoom);
+        assert.strictEqual(turnedAway[1].body.overflowRoom, turnedAway[0].body.overflowRoom);
+
+        const moderator = await callAsUser(t, manager, "/video/token", { room: roomId });
+        assert.strictEqual(moderator.status, 200, JSON.stringify(moderator.body));
+    });
+
+    it("won't refresh a token for a room that has closed since it was issued", async () => {
+        const created = await callAsUser(t, manager, "/video/new", {
+            name: "Scheduled room",
+            visibility: "public",
+            persistence: "persistent"
+        });
+        assert.strictEqual(created.status, 200, JSON.stringify(created.body));
+        const roomId = created.body.room;
+        const token = await callAsUser(t, attendees[0], "/video/token", { room: roomId });
+        assert.strictEqual(token.status, 200, JSON.stringify(token.body));
+
+        // One that's about to expire
+        const config = await t.config();
+        const oldToken = generateVideoToken(config, attendees[0].profile.id, token.body.twilioRoomId, 60).toJwt();
+        let refreshed = await callAsUser(t, attendees[0], "/video/token/refresh", { token: oldToken });
+        assert.strictEqual(refreshed.status, 200, JSON.stringify(refreshed.body));
+
+        const room = await new Parse.Query(VideoRoom).get(roomId, { useMasterKey: true });
+        await room.save({ closesAt: new Date(Date.now() - 1000) }, { useMasterKey: true });
+        refreshed = await callAsUser(t, attendees[0], "/video/token/refresh", { token: oldToken });
+        assert.deepStrictEqual([refreshed.status, refreshed.body], [403, { status: "This room has closed." }]);
+    });
+
+    it("refuses tokens to kicked participants, and refreshes in locked rooms", async () => {
+        const created = await callAsUser(t, manager, "/video/new", {
+            name: "Moderated room",
+            visibility: "public",
+            persistence: "persistent"
+        });
+        assert.strictEqual(created.status, 200, JSON.stringify(created.body));
+        const roomId = created.body.room;
+        const [kicked, locked] = attendees;
+        const tokens = await Promise.all([kicked, locked].map(x => callAsUser(t, x, "/video/token", { room: roomId })));
+        assert.deepStrictEqual(tokens.map(x => x.status), [200, 200]);
+        const twilioRoomSid = tokens[0].body.twilioRoomId;
+        t.fake.connectParticipant(twilioRoomSid, kicked.profile.id);
+
+        const kick = await callAsUser(t, manager, "/video/kick", { room: roomId, profile: kicked.profile.id });
+        assert.strictEqual(kick.status, 200, JSON.stringify(kick.body));
+        const participants = await t.fake.video.rooms(twilioRoomSid).participants.list({ status: "connected" });
+        assert.deepStrictEqual(participants.map(x => x.identity), []);
+
+        const config = await t.config();
+        const kickedToken = generateVideoToken(config, kicked.profile.id, twilioRoomSid, 60).toJwt();
+        for (const [route, body] of [["/video/token", { room: roomId }], ["/video/token/refresh", { token: kickedToken }]] as const) {
+            const refused = await callAsUser(t, kicked, route, body);
+            assert.deepStrictEqual([refused.status, refused.body], [403, { status: "You have been removed from this room." }], route);
+        }
+
+        const lock = await callAsUser(t, manager, "/video/lock", { room: roomId, locked: true });
+        assert.strictEqual(lock.status, 200, JSON.stringify(lock.body));
+        const lockedToken = generateVideoToken(config, locked.profile.id, twilioRoomSid, 60).toJwt();
+        const refresh = await callAsUser(t, locked, "/video/token/refresh", { token: lockedToken });
+        assert.deepStrictEqual([refresh.status, refresh.body], [403, { status: "This room is locked." }]);
+    });
+
+    it("kicks users removed from a private room and refuses them tokens, and destroys it once nobody has access", async () => {
+        const [owner, guest] = attendees;
+        const created = await callAsUser(t, owner, "/video/new", { name: "Private room", visibility: "private" });
+        assert.strictEqual(created.status, 200, JSON.stringify(created.body));
+        const roomId = created.body.room;
+
+        const added = await callAsUser(t, owner, "/video/acl", { room: roomId, add: [guest.profile.id] });
+        assert.deepStrictEqual([added.status, added.body], [200, { status: "OK" }]);
+        const token = await callAsUser(t, guest, "/video/token", { room: roomId });
+        assert.strictEqual(token.status, 200, JSON.stringify(token.body));
+        const twilioRoomSid = token.body.twilioRoomId;
+        t.fake.connectParticipant(twilioRoomSid, guest.profile.id);
+
+        const removed = await callAsUser(t, owner, "/video/acl", { room: roomId, remove: [guest.profile.id] });
+        assert.deepStrictEqual([removed.status, removed.body], [200, { status: "OK" }]);
+        const participants = await t.fake.video.rooms(twilioRoomSid).participants.list({ status: "connected" });
+        assert.deepStrictEqual(participants.map(x => x.identity), []);
+
+        // Refused for as long as the token they have lasts
+        const config = await t.config();
+        const room = await new Parse.Query(VideoRoom).get(roomId, { useMasterKey: true });
+        const kickedUntil = room.get("kickedUntil")?.[guest.profile.id];
+        assert(kickedUntil && kickedUntil > Date.now() + (getTokenTTL(config, "video") - 60) * 1000, JSON.stringify(room.get("kickedUntil")));
+        const refused = await callAsUser(t, guest, "/video/token", { room: roomId });
+        assert.strictEqual(refused.status, 403);
+        const guestToken = generateVideoToken(config, guest.profile.id, twilioRoomSid, 60).toJwt();
+        const refresh = await callAsUser(t, guest, "/video/token/refresh", { token: guestToken });
+        assert.strictEqual(refresh.status, 400);
+
+        const readded = await callAsUser(t, owner, "/video/acl", { room: roomId, add: [guest.profile.id] });
+        assert.deepStrictEqual([readded.status, readded.body], [200, { status: "OK" }]);
+        const newToken = await callAsUser(t, guest, "/video/token", { room: roomId });
+        assert.strictEqual(newToken.status, 200, JSON.stringify(newToken.body));
+
+        const destroyed = await callAsUser(t, owner, "/video/acl", { room: roomId, remove: [owner.profile.id, guest.profile.id] });
+        assert.deepStrictEqual([destroyed.status, destroyed.body], [200, { status: "OK", destroyed: true }]);
+        await assert.rejects(new Parse.Query(VideoRoom).get(roomId, { useMasterKey: true }));
+    });
+});
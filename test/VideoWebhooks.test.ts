@@ -0,0 +1,201 @@
+import assert from "assert";
+import Parse from "parse/node";
+
+import { ClowdrConfig } from "../src/Config";
+import {
+    TextChat,
+    VideoRoom,
+    VideoRoomParticipation,
+    VideoRoomRecording,
+    VideoRoomT
+} from "../src/SchemaTypes";
+import { callAsUser, createTestConference, createTestUser, TestConference, TestUser } from "./support/Conference";
+import { replayRecordedWebhooks } from "./support/Webhooks";
+
+describe("Video webhooks", () => {
+    let t: TestConference;
+    let config: ClowdrConfig;
+    let admin: TestUser;
+    let attendee: TestUser;
+
+    before(async () => {
+        t = await createTestConference();
+        config = await t.config();
+        admin = await createTestUser(t, ["admin"]);
+        attendee = await createTestUser(t, ["attendee"]);
+    });
+
+    let roomCount = 0;
+
+    /** Creates a room through /video/new, as `creator` */
+    async function createRoom(creator: TestUser, options: object): Promise<string> {
+        roomCount++;
+        const result = await callAsUser(t, creator, "/video/new", {
+            name: `Room ${roomCount}`,
+            visibility: "public",
+            ...options
+        });
+        assert.strictEqual(result.status, 200, JSON.stringify(result.body));
+        return result.body.room;
+    }
+
+    /** Gets a token for the room through /video/token, which starts its Twilio room */
+    async function startRoom(user: TestUser, roomId: string): Promise<string> {
+        const result = await callAsUser(t, user, "/video/token", { room: roomId });
+        assert.strictEqual(result.status, 200, JSON.stringify(result.body));
+        return result.body.twilioRoomId;
+    }
+
+    function getRoom(roomId: string): Promise<VideoRoomT | undefined> {
+        const q = new Parse.Query(VideoRoom);
+        return q.get(roomId, { useMasterKey: true }).catch(() => undefined);
+    }
+
+    function getParticipations(twilioRoomSid: string) {
+        const q = new Parse.Query(VideoRoomParticipation);
+        q.equalTo("twilioRoomSid", twilioRoomSid);
+        return q.find({ useMasterKey: true });
+    }
+
+    it("tracks participants of a persistent room, and clears it when the room ends", async () => {
+        const roomId = await createRoom(admin, { persistence: "persistent" });
+        const twilioRoomSid = await startRoom(attendee, roomId);
+
+        t.fake.connectParticipant(twilioRoomSid, attendee.profile.id);
+        let deliveries = await t.webhooks.deliverAll();
+        assert.deepStrictEqual(deliveries.map(x => [x.body.StatusCallbackEvent, x.status]), [
+            ["room-created", 200],
+            ["participant-connected", 200]
+        ]);
+
+        assert.deepStrictEqual((await getRoom(roomId))?.get("participants"), [attendee.profile.id]);
+        const [participation] = await getParticipations(twilioRoomSid);
+        assert.strictEqual(participation.get("identity"), attendee.profile.id);
+        assert.strictEqual(participation.get("room").id, roomId);
+        assert(participation.get("joinedAt"));
+        assert.strictEqual(participation.get("leftAt"), undefined);
+
+        await t.fake.video.rooms(twilioRoomSid).update({ status: "completed" });
+        deliveries = await t.webhooks.deliverAll();
+        assert.deepStrictEqual(deliveries.map(x => [x.body.StatusCallbackEvent, x.status]), [
+            ["participant-disconnected", 200],
+            ["room-ended", 200]
+        ]);
+
+        const room = await getRoom(roomId);
+        assert(room, "Persistent rooms outlive their Twilio room");
+        assert(!room.get("twilioID"));
+        assert.deepStrictEqual(room.get("participants"), []);
+        assert((await getParticipations(twilioRoomSid))[0].get("leftAt"));
+    });
+
+    it("handles recorded callbacks for an ephemeral room, removing it and its text chat when it ends", async () => {
+        const roomId = await createRoom(attendee, { persistence: "ephemeral", textChat: true });
+        const twilioRoomSid = await startRoom(attendee, roomId);
+        t.webhooks.discardAll();
+
+        const textChat = (await getRoom(roomId))?.get("textChat");
+        assert(textChat);
+        const textChatQ = new Parse.Query(TextChat);
+        const channelSid = (await textChatQ.get(textChat.id, { useMasterKey: true })).get("twilioID");
+        assert(channelSid);
+
+        const values = {
+            RoomSid: twilioRoomSid,
+            RoomName: roomId,
+            ParticipantSid: "PA00000000000000000000000000000001",
+            ParticipantIdentity: attendee.profile.id
+        };
+        let deliveries = await replayRecordedWebhooks(t.backend, config, "video-participant-connected", values);
+        assert.deepStrictEqual(deliveries.map(x => x.status), [200]);
+        assert.deepStrictEqual((await getRoom(roomId))?.get("participants"), [attendee.profile.id]);
+
+        deliveries = await replayRecordedWebhooks(t.backend, config, "video-room-ended", values);
+        assert.deepStrictEqual(deliveries.map(x => x.status), [200, 200]);
+
+        assert.strictEqual(await getRoom(roomId), undefined);
+        await assert.rejects(new Parse.Query(TextChat).get(textChat.id, { useMasterKey: true }));
+        await assert.rejects(
+            t.fake.chat.services(config.TWILIO_CHAT_SERVICE_SID).channels(channelSid).fetch(),
+            (e: any) => e.status === 404);
+        const [participation] = await getParticipations(twilioRoomSid);
+        assert.strictEqual(participation.get("participantSid"), values.ParticipantSid);
+        assert(participation.get("leftAt"));
+    });
+
+    it("composes a recorded room once it ends", async () => {
+        const roomId = await createRoom(admin, { persistence: "persistent", mode: "group", recording: true });
+        const twilioRoomSid = await startRoom(admin, roomId);
+        t.fake.connectParticipant(twilioRoomSid, admin.profile.id);
+        await t.fake.video.rooms(twilioRoomSid).update({ status: "completed" });
+
+        const deliveries = await t.webhooks.deliverAll();
+        assert.deepStrictEqual(deliveries.filter(x => x.kind === "composition").map(x => [x.body.StatusCallbackEvent, x.status]), [
+            ["composition-enqueued", 200],
+            ["composition-available", 200]
+        ]);
+
+        const recordingQ = new Parse.Query(VideoRoomRecording);
+        recordingQ.equalTo("twilioRoomSid", twilioRoomSid);
+        const recording = await recordingQ.first({ useMasterKey: true });
+        assert(recording);
+        assert.strictEqual(recording.get("status"), "completed");
+        const compositionSid = recording.get("compositionSid");
+        assert(compositionSid);
+        assert.strictEqual(recording.get("mediaURL"), `https://video.twilio.com/v1/Compositions/${compositionSid}/Media`);
+        assert.strictEqual((await getRoom(roomId))?.get("recordingMediaURL"), recording.get("mediaURL"));
+
+        const [late] = await replayRecordedWebhooks(t.backend, config, "composition-failed", {
+            CompositionSid: compositionSid,
+            RoomSid: twilioRoomSid
+        });
+        assert.strictEqual(late.status, 200);
+        await recording.fetch({ useMasterKey: true });
+        assert.strictEqual(recording.get("status"), "completed", "Completed recordings stay completed");
+    });
+
+    it("processes a callback delivered twice at once only once", async () => {
+        const roomId = await createRoom(admin, { persistence: "persistent" });
+        const twilioRoomSid = await startRoom(attendee, roomId);
+        t.webhooks.discardAll();
+
+        t.fake.connectParticipant(twilioRoomSid, attendee.profile.id);
+        const deliveries = await t.webhooks.deliverNextTwice();
+        assert.deepStrictEqual(deliveries.map(x => x.status).sort(), [200, 403]);
+        assert.strictEqual((await getParticipations(twilioRoomSid)).length, 1);
+    });
+
+    it("credits callbacks to the right one of the conferences sharing an account", async () => {
+        const other = await createTestConference(t);
+        const otherAttendee = await createTestUser(other, ["attendee"]);
+        const created = await callAsUser(other, otherAttendee, "/video/new", { name: "Shared account room", visibility: "public" });
+        assert.strictEqual(created.status, 200, JSON.stringify(created.body));
+        const roomId = created.body.room;
+        const token = await callAsUser(other, otherAttendee, "/video/token", { room: roomId });
+        assert.strictEqual(token.status, 200, JSON.stringify(token.body));
+        const twilioRoomSid = token.body.twilioRoomId;
+        other.webhooks.discardAll();
+        // Both relays hear the account's webhooks: only deliver them once
+        t.webhooks.discardAll();
+
+        other.fake.connectParticipant(twilioRoomSid, otherAttendee.profile.id);
+        const deliveries = await other.webhooks.deliverAll();
+        t.webhooks.discardAll();
+        assert.deepStrictEqual(deliveries.map(x => [x.body.StatusCallbackEvent, x.status]), [["participant-connected", 200]]);
+
+        assert.deepStrictEqual((await getRoom(roomId))?.get("participants"), [otherAttendee.profile.id]);
+        const [participation] = await getParticipations(twilioRoomSid);
+        assert.strictEqual(participation.get("conference").id, other.conf.id);
+    });
+
+    it("rejects callbacks that aren't signed by the conference's account", async () => {
+        const [result] = await replayRecordedWebhooks(t.backend, { ...config, TWILIO_AUTH_TOKEN: "not the auth token" }, "video-participant-connected", {
+            RoomSid: "RM00000000000000000000000000000000",
+            RoomName: "Nowhere",
+            ParticipantSid: "PA00000000000000000000000000000000",
+            ParticipantIdentity: attendee.profile.id
+        });
+
+        assert.strictEqual(result.status, 403);
+    });
+});
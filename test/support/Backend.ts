@@ -0,0 +1,86 @@
+import Express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { ParseServer } from "parse-server";
+
+import runBackend from "../../src/app";
+import { createInMemoryFilesAdapter, InMemoryStorageAdapter } from "./InMemoryParse";
+
+// Every test file shares one backend (with the fake provider) and one Parse
+// Server - like the real thing, the backend keeps per-process caches and
+// timers, so it can only be started once. Tests keep out of each other's way
+// by each creating their own conference.
+
+const PARSE_APP_ID = "clowdr-test";
+const PARSE_JS_KEY = "clowdr-test-js-key";
+const PARSE_MASTER_KEY = "clowdr-test-master-key";
+
+export type TestBackend = {
+    // Where the backend is listening, e.g. http://localhost:12345
+    url: string;
+};
+
+function listen(app: Express.Express): Promise<{ server: Server, url: string }> {
+    return new Promise(resolve => {
+        const server = app.listen(0, () => {
+            resolve({ server, url: `http://localhost:${(server.address() as AddressInfo).port}` });
+        });
+    });
+}
+
+async function startParseServer(): Promise<string> {
+    const app = Express();
+    const { url } = await listen(app);
+    const serverURL = `${url}/parse`;
+
+    const parseServer = new ParseServer({
+        appId: PARSE_APP_ID,
+        javascriptKey: PARSE_JS_KEY,
+        masterKey: PARSE_MASTER_KEY,
+        serverURL,
+        databaseAdapter: new InMemoryStorageAdapter({}),
+        filesAdapter: createInMemoryFilesAdapter(),
+        logLevel: "error"
+    });
+    await parseServer.start();
+    app.use("/parse", parseServer.app);
+    return serverURL;
+}
+
+async function start(): Promise<TestBackend> {
+    process.env.REACT_APP_PARSE_APP_ID = PARSE_APP_ID;
+    process.env.REACT_APP_PARSE_JS_KEY = PARSE_JS_KEY;
+    process.env.PARSE_MASTER_KEY = PARSE_MASTER_KEY;
+    process.env.REACT_APP_PARSE_DATABASE_URL = await startParseServer();
+
+    process.env.CLOWDR_PROVIDER = "fake";
+    process.env.TWILIO_BACKEND_SKIP_INIT = "true";
+    process.env.REACT_APP_FRONTEND_URL = "http://localhost:3000";
+    process.env.REACT_APP_TWILIO_CALLBACK_URL = "http://localhost:3000/twilio";
+    process.env.PORT = "0";
+
+    const server = await runBackend();
+    const url = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    // Nothing reads the configuration until the first conference is loaded,
+    // by which time the backend's port is known
+    process.env.SHOULD_CONFIGURE_TWILIO = "true";
+    process.env.TWILIO_CHAT_PRE_WEBHOOK_URL = `${url}/twilio/chat/event`;
+    process.env.TWILIO_CHAT_POST_WEBHOOK_URL = `${url}/twilio/chat/event`;
+    process.env.TWILIO_VIDEO_WEBHOOK_URL = `${url}/twilio/video/event`;
+
+    return { url };
+}
+
+let backend: Promise<TestBackend> | undefined;
+
+/**
+ * Starts the backend against an in-memory Parse Server, or gets the one
+ * already started.
+ */
+export function startBackend(): Promise<TestBackend> {
+    if (!backend) {
+        backend = start();
+    }
+    return backend;
+}
@@ -0,0 +1,108 @@
+import { randomBytes } from "crypto";
+import Parse from "parse/node";
+import { RoleNames } from "@clowdr-app/clowdr-db-schema/build/DataLayer/Schema/_Role";
+
+import { ClowdrConfig, getConfig } from "../../src/Config";
+import { FakeProvider } from "../../src/FakeProvider";
+import { getConference } from "../../src/ParseHelpers";
+import { provisionConference } from "../../src/Provisioning";
+import { setUserRole } from "../../src/Roles";
+import { Conference, ConferenceT, UserProfile, UserProfileT, UserT } from "../../src/SchemaTypes";
+import { getAccountProvider } from "../../src/Twilio";
+import { startBackend, TestBackend } from "./Backend";
+import { postJSON } from "./Http";
+import { WebhookRelay } from "./Webhooks";
+
+// Each test conference has its own (fake) Twilio account, so neither its
+// provider state nor its webhooks are shared with any other test's - unless
+// it's asked to share another conference's.
+
+export type TestConference = {
+    backend: TestBackend;
+    conf: ConferenceT;
+    fake: FakeProvider;
+    webhooks: WebhookRelay;
+    config: () => Promise<ClowdrConfig>;
+};
+
+export type TestUser = {
+    user: UserT;
+    profile: UserProfileT;
+    sessionToken: string;
+};
+
+let conferenceCount = 0;
+let userCount = 0;
+
+/**
+ * Creates and provisions a conference, then loads it into the backend (which
+ * configures its chat service and starts its schedulers). It gets a new
+ * account unless `sharedAccount` gives a conference to share one with - in
+ * which case both relays hear every webhook the account raises.
+ */
+export async function createTestConference(sharedAccount?: TestConference): Promise<TestConference> {
+    const backend = await startBackend();
+
+    conferenceCount++;
+    const conf = new Conference();
+    conf.set("name", `Test Conference ${conferenceCount}`);
+    conf.set("shortName", `TC${conferenceCount}`);
+    await conf.save(null, { useMasterKey: true });
+
+    const sharedConfig = await sharedAccount?.config();
+    const accountSID = sharedConfig?.TWILIO_ACCOUNT_SID ?? "AC" + randomBytes(16).toString("hex");
+    const authToken = sharedConfig?.TWILIO_AUTH_TOKEN ?? randomBytes(16).toString("hex");
+    await provisionConference(conf, {
+        accountSID,
+        authToken,
+        subaccount: false,
+        chatPreWebhookURL: process.env.TWILIO_CHAT_PRE_WEBHOOK_URL,
+        chatPostWebhookURL: process.env.TWILIO_CHAT_POST_WEBHOOK_URL
+    });
+    await getConference(conf.id);
+
+    const fake = getAccountProvider("fake", accountSID, authToken) as FakeProvider;
+    return {
+        backend,
+        conf,
+        fake,
+        webhooks: new WebhookRelay(authToken, fake),
+        config: () => getConfig(conf.id)
+    };
+}
+
+/**
+ * Signs up a user with a profile in the conference and the given roles.
+ */
+export async function createTestUser(t: TestConference, roles: Array<RoleNames>): Promise<TestUser> {
+    userCount++;
+    const user = new Parse.User() as UserT;
+    user.set("username", `test-user-${userCount}`);
+    user.setPassword(randomBytes(16).toString("hex"));
+    user.set("email", `test-user-${userCount}@example.org`);
+    await user.signUp();
+    const sessionToken = user.getSessionToken();
+
+    const profile = new UserProfile();
+    profile.set("user", user);
+    profile.set("conference", t.conf);
+    profile.set("displayName", `Test User ${userCount}`);
+    profile.setACL(new Parse.ACL(user));
+    await profile.save(null, { useMasterKey: true });
+
+    for (const role of roles) {
+        await setUserRole(t.conf, user, role, true);
+    }
+    return { user, profile, sessionToken };
+}
+
+/**
+ * Calls one of the backend's endpoints as the user.
+ */
+export function callAsUser(t: TestConference, user: TestUser, route: string, body: object): Promise<{ status: number, body: any }> {
+    return postJSON(t.backend.url + route, {
+        identity: user.sessionToken,
+        conference: t.conf.id,
+        ...body
+    });
+}
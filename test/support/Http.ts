@@ -0,0 +1,46 @@
+import http from "http";
+import { URL } from "url";
+
+export type HttpResponse = {
+    status: number;
+    body: string;
+};
+
+/**
+ * Posts to the (plain HTTP) backend. Never rejects for an error status, so
+ * tests can check it.
+ */
+export function post(url: string, contentType: string, body: string, headers: http.OutgoingHttpHeaders = {}): Promise<HttpResponse> {
+    return new Promise((resolve, reject) => {
+        const req = http.request(new URL(url), {
+            method: "POST",
+            headers: {
+                ...headers,
+                "Content-Type": contentType,
+                "Content-Length": Buffer.byteLength(body)
+            }
+        }, res => {
+            let data = "";
+            res.on("data", chunk => data += chunk);
+            res.on("end", () => resolve({ status: res.statusCode ?? 0, body: data }));
+        });
+        req.on("error", reject);
+        req.end(body);
+    });
+}
+
+/**
+ * Posts a JSON body, as the frontend does, and parses the response if it's
+ * JSON.
+ */
+export async function postJSON(url: string, body: object): Promise<{ status: number, body: any }> {
+    const response = await post(url, "application/json", JSON.stringify(body));
+    let parsed: any = response.body;
+    try {
+        parsed = JSON.parse(response.body);
+    }
+    catch (e) {
+        // e.g. Express's error page
+    }
+    return { status: response.status, body: parsed };
+}
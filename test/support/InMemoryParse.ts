@@ -0,0 +1,65 @@
+import mongoMock, { MongoMockCollection } from "mongo-mock";
+import { FilesAdapter } from "parse-server";
+import { MongoStorageAdapter } from "parse-server/lib/Adapters/Storage/Mongo/MongoStorageAdapter";
+
+// Storage for a Parse Server that lives only as long as the test process, so
+// the tests need neither a MongoDB server nor anywhere to write files.
+
+mongoMock.max_delay = 0;
+
+/**
+ * mongo-mock's cursors don't implement a couple of options Parse Server sets
+ * on every query. Neither changes the results for the data the tests use, so
+ * they're accepted and ignored.
+ */
+function addMissingCursorOptions(collection: MongoMockCollection): MongoMockCollection {
+    const find = collection.find.bind(collection);
+    collection.find = (...args) => {
+        const cursor = find(...args);
+        cursor.collation = () => cursor;
+        cursor.maxTimeMS = () => cursor;
+        return cursor;
+    };
+    return collection;
+}
+
+/**
+ * Parse Server's MongoDB adapter, connected to mongo-mock's in-memory
+ * implementation of the driver instead of a real database.
+ */
+export class InMemoryStorageAdapter extends MongoStorageAdapter {
+    connect(): Promise<void> {
+        if (!this.connectionPromise) {
+            this.connectionPromise = mongoMock.MongoClient.connect("mongodb://localhost:27017/clowdr-test", {}).then(client => {
+                const database = client.db("clowdr-test");
+                const collection = database.collection.bind(database);
+                database.collection = (...args) => addMissingCursorOptions(collection(...args));
+                this.client = client;
+                this.database = database;
+            });
+        }
+        return this.connectionPromise;
+    }
+}
+
+export function createInMemoryFilesAdapter(): FilesAdapter {
+    const files = new Map<string, Buffer>();
+    return {
+        async createFile(filename, data) {
+            files.set(filename, data);
+        },
+        async deleteFile(filename) {
+            files.delete(filename);
+        },
+        async getFileData(filename) {
+            const data = files.get(filename);
+            if (!data) {
+                throw new Error(`No such file: ${filename}`);
+            }
+            return data;
+        },
+        getFileLocation(config, filename) {
+            return `${config.mount}/files/${config.applicationId}/${encodeURIComponent(filename)}`;
+        }
+    };
+}
@@ -0,0 +1,151 @@
+import { randomBytes } from "crypto";
+import { readFileSync } from "fs";
+import path from "path";
+import { stringify } from "querystring";
+import { getExpectedTwilioSignature } from "twilio/lib/webhooks/webhooks";
+
+import { ClowdrConfig } from "../../src/Config";
+import { FakeProvider } from "../../src/FakeProvider";
+import { TestBackend } from "./Backend";
+import { post } from "./Http";
+
+// Gets webhooks to the backend the way Twilio would: form encoded, signed with
+// the account's auth token and with a fresh idempotency token each.
+
+export type WebhookKind = "chat" | "video" | "composition";
+export type WebhookBody = { [key: string]: string | undefined };
+
+export type WebhookDelivery = {
+    kind: WebhookKind;
+    body: WebhookBody;
+    status: number;
+    response: string;
+};
+
+const WEBHOOK_KINDS: Array<WebhookKind> = ["chat", "video", "composition"];
+
+// As for scripts/replay-twilio-webhooks.ts
+const WEBHOOK_PATHS: { [K in WebhookKind]: string } = {
+    chat: "/twilio/chat/event",
+    video: "/twilio/video/event",
+    composition: "/twilio/video/composition"
+};
+
+const RECORDED_WEBHOOKS_DIR = path.join(__dirname, "..", "webhooks");
+
+async function sendWebhook(
+    authToken: string,
+    kind: WebhookKind,
+    url: string,
+    body: WebhookBody,
+    idempotencyToken = randomBytes(16).toString("hex")
+): Promise<WebhookDelivery> {
+    const fields: { [key: string]: string } = {};
+    for (const [key, value] of Object.entries(body)) {
+        if (value !== undefined) {
+            fields[key] = value;
+        }
+    }
+
+    const signature = getExpectedTwilioSignature(authToken, url, fields);
+    const result = await post(url, "application/x-www-form-urlencoded", stringify(fields), {
+        "X-Twilio-Signature": signature,
+        "I-Twilio-Idempotency-Token": idempotencyToken
+    });
+    return { kind, body, status: result.status, response: result.body };
+}
+
+/**
+ * Delivers the webhooks a fake provider raises (see `FakeProvider.events`) to
+ * the URLs the backend configured for them. Nothing is sent until
+ * `deliverAll`, so a test controls when the backend hears about each event.
+ */
+export class WebhookRelay {
+    private pending: Array<{ kind: WebhookKind, body: WebhookBody, url: string }> = [];
+
+    constructor(private authToken: string, fake: FakeProvider) {
+        for (const kind of WEBHOOK_KINDS) {
+            fake.events.on(kind, (body: WebhookBody, url: string) => {
+                this.pending.push({ kind, body, url });
+            });
+        }
+    }
+
+    /**
+     * Delivers the waiting webhooks in the order they were raised - including
+     * any raised while the backend handles them - until there are none left.
+     */
+    async deliverAll(): Promise<Array<WebhookDelivery>> {
+        const deliveries: Array<WebhookDelivery> = [];
+        let next = this.pending.shift();
+        while (next) {
+            deliveries.push(await sendWebhook(this.authToken, next.kind, next.url, next.body));
+            next = this.pending.shift();
+        }
+        return deliveries;
+    }
+
+    /**
+     * Delivers the next waiting webhook twice at once, as Twilio might when
+     * retrying - both with the same idempotency token.
+     */
+    async deliverNextTwice(): Promise<Array<WebhookDelivery>> {
+        const next = this.pending.shift();
+        if (!next) {
+            throw new Error("No webhooks are waiting.");
+        }
+        const idempotencyToken = randomBytes(16).toString("hex");
+        return Promise.all([1, 2].map(() => sendWebhook(this.authToken, next.kind, next.url, next.body, idempotencyToken)));
+    }
+
+    /** Forgets the waiting webhooks without delivering them. */
+    discardAll() {
+        this.pending = [];
+    }
+}
+
+/**
+ * Sends the recorded webhooks in `test/webhooks/<name>.json` to the backend.
+ *
+ * The file is in the format scripts/replay-twilio-webhooks.ts takes, except
+ * that any value starting with "$" is a placeholder: "$now" is the current
+ * time, "$AccountSid" and "$InstanceSid" come from the conference's
+ * configuration, and the rest must be given in `values`.
+ */
+export async function replayRecordedWebhooks(
+    backend: TestBackend,
+    config: ClowdrConfig,
+    name: string,
+    values: { [placeholder: string]: string }
+): Promise<Array<WebhookDelivery>> {
+    const recorded: Array<{ kind: WebhookKind, body: { [key: string]: string } }>
+        = JSON.parse(readFileSync(path.join(RECORDED_WEBHOOKS_DIR, `${name}.json`), "utf-8"));
+    const allValues: { [placeholder: string]: string } = {
+        AccountSid: config.TWILIO_ACCOUNT_SID,
+        InstanceSid: config.TWILIO_CHAT_SERVICE_SID,
+        ...values
+    };
+
+    const deliveries: Array<WebhookDelivery> = [];
+    for (const webhook of recorded) {
+        const body: WebhookBody = {};
+        for (const [key, value] of Object.entries(webhook.body)) {
+            if (value === "$now") {
+                body[key] = new Date().toISOString();
+            }
+            else if (value.startsWith("$")) {
+                const substitute = allValues[value.substring(1)];
+                if (substitute === undefined) {
+                    throw new Error(`No value given for ${value} in recorded webhooks '${name}'.`);
+                }
+                body[key] = substitute;
+            }
+            else {
+                body[key] = value;
+            }
+        }
+
+        deliveries.push(await sendWebhook(config.TWILIO_AUTH_TOKEN, webhook.kind, backend.url + WEBHOOK_PATHS[webhook.kind], body));
+    }
+    return deliveries;
+}
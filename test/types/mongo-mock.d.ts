@@ -0,0 +1,31 @@
+// Just the parts of mongo-mock the tests use
+
+declare module "mongo-mock" {
+    namespace mongoMock {
+        interface MongoMockCursor {
+            collation?: (collation: object) => MongoMockCursor;
+            maxTimeMS?: (ms: number) => MongoMockCursor;
+        }
+
+        interface MongoMockCollection {
+            find(...args: Array<unknown>): MongoMockCursor;
+        }
+
+        interface MongoMockDb {
+            collection(name: string, ...args: Array<unknown>): MongoMockCollection;
+        }
+
+        interface MongoMockClient {
+            db(name?: string): MongoMockDb;
+        }
+    }
+
+    const mongoMock: {
+        // The most it pretends each operation takes, in ms
+        max_delay: number;
+        MongoClient: {
+            connect(url: string, options?: object): Promise<mongoMock.MongoMockClient>;
+        };
+    };
+    export = mongoMock;
+}
@@ -0,0 +1,39 @@
+// Just the parts of parse-server the tests use
+
+declare module "parse-server" {
+    import { Express } from "express";
+
+    export interface FilesAdapter {
+        createFile(filename: string, data: Buffer, contentType?: string): Promise<void>;
+        deleteFile(filename: string): Promise<void>;
+        getFileData(filename: string): Promise<Buffer>;
+        getFileLocation(config: { mount: string, applicationId: string }, filename: string): string;
+    }
+
+    export interface ParseServerOptions {
+        appId: string;
+        masterKey: string;
+        javascriptKey?: string;
+        serverURL: string;
+        databaseAdapter?: object;
+        filesAdapter?: FilesAdapter;
+        logLevel?: string;
+        silent?: boolean;
+    }
+
+    export class ParseServer {
+        readonly app: Express;
+        constructor(options: ParseServerOptions);
+        start(): Promise<ParseServer>;
+    }
+}
+
+declare module "parse-server/lib/Adapters/Storage/Mongo/MongoStorageAdapter" {
+    export class MongoStorageAdapter {
+        protected connectionPromise?: Promise<void>;
+        protected client?: unknown;
+        protected database?: unknown;
+        constructor(options: { uri?: string, collectionPrefix?: string, mongoOptions?: object });
+        connect(): Promise<void>;
+    }
+}